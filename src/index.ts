@@ -1,63 +1,92 @@
 import { EventEmitter } from 'events';
-import { WebClient } from '@slack/web-api';
+import { AsyncLocalStorage } from 'async_hooks';
+import { StringDecoder } from 'string_decoder';
+import { WebClient, WebClientOptions } from '@slack/web-api';
 import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { pipeline, Readable, Writable } from 'stream';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
 
 // ============================================
 // 1. CONFIG STORE
 // ============================================
 class ConfigStore {
-  private static instance: ConfigStore;
   private isInitialized = false;
   private slackToken: string = '';
   private defaultChannelName: string = '';
   private defaultChannelId: string = '';
-  private slackClient: WebClient | null = null;
+  private slackClient: SlackApiClient | null = null;
   private autoDeleteFiles: boolean = true;
   private tempDir: string = '';
-
-  private constructor() {
-    this.tryAutoInitialize();
-  }
-
-  static getInstance(): ConfigStore {
-    if (!ConfigStore.instance) {
-      ConfigStore.instance = new ConfigStore();
-    }
-    return ConfigStore.instance;
+  private spool: FileSpool | null = null;
+  private transports: Transport[] = [];
+  private dedupeOptions: Required<DedupeOptions> | null = null;
+  private rateLimitOptions: ResolvedRateLimitOptions | null = null;
+  private retryOptions: Required<RetryOptions> | null = null;
+  private redactor: Redactor | null = null;
+  private digestOptions: ResolvedDigestOptions | null = null;
+  private router: Router | null = null;
+  private attachmentOptions: ResolvedAttachmentOptions | null = null;
+  private interactiveOptions: Required<InteractiveOptions> | null = null;
+  private threadingOptions: Required<ThreadingOptions> | null = null;
+  private templates: SeverityTemplates = {};
+  private stackTraceOptions: Required<StackTraceOptions> | null = null;
+  private links: Record<string, string> = {};
+  private metadata: AlertMetadata = {};
+  private severitiesByEnvironment: Record<string, Severity[]> = {};
+  private scopeOptions: Required<ScopeOptions> = { maxBreadcrumbs: 50, breadcrumbsInMessage: 10, attachToFile: false };
+  // Not part of the configuration - breadcrumbs survive reset() and config reloads
+  private scopes = new ScopeManager(() => this.scopeOptions.maxBreadcrumbs);
+  private log: DiagnosticLog;
+
+  constructor(private name: string) {
+    this.log = new DiagnosticLog(name);
   }
 
-  private tryAutoInitialize(): void {
+  tryAutoInitialize(): void {
     // REMOVED HARCODED TOKEN - Use environment variables
     const token = process.env.SLACK_TOKEN_ID;
     const channelName = process.env.CHANNEL_NAME || "";
     const channelId = process.env.CHANNEL_ID || ""; 
 
     if (token && channelName && channelId) {
-      this.initialize(token, channelName, channelId);
-      console.log('✅ error-notifier: Auto-initialized from environment variables');
+      const storage = process.env.ALERT_ATTACHMENT_STORAGE === 'memory' ? 'memory' : 'disk';
+      this.metadata = detectMetadata();
+      this.initialize(token, channelName, channelId, {}, process.env.ALERT_TEMP_DIR, storage);
+      this.log.info('Auto-initialized from environment variables', { channel: channelName });
     } else {
-      console.log('ℹ️ error-notifier: Not auto-initialized. Call alert.init() to initialize.');
+      this.log.debug('Not auto-initialized, waiting for init()');
     }
   }
 
-  private initialize(slackToken: string, channelName: string, channelId: string): void {
+  private initialize(
+    slackToken: string,
+    channelName: string,
+    channelId: string,
+    clientOptions: WebClientOptions = {},
+    tempDir?: string,
+    storage: AttachmentStorage = 'disk',
+    slackClient?: SlackApiClient
+  ): void {
     if (this.isInitialized) return;
 
     this.slackToken = slackToken;
     this.defaultChannelName = channelName;
     this.defaultChannelId = channelId;
-    this.slackClient = new WebClient(slackToken);
+    this.slackClient = slackClient || new WebClient(slackToken, clientOptions);
 
-    // Create temp directory for files
-    this.tempDir = path.join(__dirname, '..', 'temp-uploads');
-    if (!fs.existsSync(this.tempDir)) {
-      fs.mkdirSync(this.tempDir, { recursive: true });
-    }
+    // Temp directory for files - named alerters get their own subdirectory. It is
+    // only created once something is written there, never at import time.
+    this.tempDir = tempDir || (this.name === 'default'
+      ? path.join(__dirname, '..', 'temp-uploads')
+      : path.join(__dirname, '..', 'temp-uploads', this.name));
+    this.spool = storage === 'memory' ? new MemorySpool() : new DiskSpool(this.tempDir);
 
     this.isInitialized = true;
   }
@@ -66,12 +95,30 @@ class ConfigStore {
     slackToken: string,
     channelName: string,
     channelId: string,
-    options?: { autoDeleteFiles?: boolean }
+    options?: InitOptions
   ): void {
     if (this.isInitialized) {
       throw new Error('error-notifier: Already initialized!');
     }
 
+    try {
+      this.configure(slackToken, channelName, channelId, options);
+    } catch (error) {
+      // Leave nothing half-applied, so a corrected init() starts from scratch
+      this.reset();
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and apply init() options - every check runs before initialize()
+   */
+  private configure(
+    slackToken: string,
+    channelName: string,
+    channelId: string,
+    options?: InitOptions
+  ): void {
     // Validate inputs
     if (!slackToken || !slackToken.startsWith('xoxb-')) {
       throw new Error('error-notifier: Invalid Slack bot token format. Token should start with xoxb-');
@@ -85,22 +132,208 @@ class ConfigStore {
       throw new Error('error-notifier: Channel ID is required');
     }
 
-    this.initialize(slackToken, channelName, channelId);
+    const logger = options?.logger;
+    if (logger && !isWinstonLogger(logger) && LOG_LEVELS.some(level => typeof logger[level] !== 'function')) {
+      throw new Error('error-notifier: logger must have debug, info, warn and error methods (or a winston logger)');
+    }
+    if (options?.logLevel && !LOG_LEVELS.includes(options.logLevel)) {
+      throw new Error(`error-notifier: logLevel must be one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    this.log.configure(logger, options?.logLevel);
+
+    if (options?.retry) {
+      const retry = options.retry === true ? {} : options.retry;
+      this.retryOptions = {
+        maxAttempts: retry.maxAttempts ?? 5,
+        baseDelayMs: retry.baseDelayMs ?? 2000,
+        maxDelayMs: retry.maxDelayMs ?? 5 * 60 * 1000
+      };
+      if (this.retryOptions.maxAttempts < 1 || this.retryOptions.baseDelayMs <= 0) {
+        throw new Error('error-notifier: retry.maxAttempts must be at least 1 and retry.baseDelayMs greater than 0');
+      }
+    }
+
+    if (options?.redact) {
+      const redact = options.redact === true ? {} : options.redact;
+      if (redact.patterns?.some(pattern => !(pattern instanceof RegExp))) {
+        throw new Error('error-notifier: redact.patterns must be regular expressions');
+      }
+      if (redact.custom?.some(scrub => typeof scrub !== 'function')) {
+        throw new Error('error-notifier: redact.custom must be functions');
+      }
+      this.redactor = new Redactor(redact);
+    }
+
+    if (options?.scope) {
+      this.scopeOptions = { ...this.scopeOptions, ...options.scope };
+      if (this.scopeOptions.maxBreadcrumbs < 1) {
+        throw new Error('error-notifier: scope.maxBreadcrumbs must be at least 1');
+      }
+    }
+
+    if (options?.digest) {
+      this.digestOptions = this.validateDigest(options.digest === true ? {} : options.digest);
+    }
+
+    if (options?.routes) {
+      this.router = new Router(this.validateRoutes(options.routes));
+    }
+
+    if (options?.slackClient && typeof options.slackClient.chat?.postMessage !== 'function') {
+      throw new Error('error-notifier: slackClient must provide chat.postMessage, chat.update and files.uploadV2');
+    }
+
+    if (options?.attachmentStorage && !['disk', 'memory'].includes(options.attachmentStorage)) {
+      throw new Error('error-notifier: attachmentStorage must be one of: disk, memory');
+    }
+
+    if (options?.attachments) {
+      this.attachmentOptions = this.validateAttachments(options.attachments === true ? {} : options.attachments);
+    }
+
+    if (options?.interactive) {
+      this.interactiveOptions = this.validateInteractive(options.interactive === true ? {} : options.interactive);
+    }
+
+    if (options?.threading) {
+      const threading = { ...THREADING_DEFAULTS, ...(options.threading === true ? {} : options.threading) };
+      if (threading.windowMs <= 0 || threading.maxThreads < 1) {
+        throw new Error('error-notifier: threading.windowMs must be greater than 0 and threading.maxThreads at least 1');
+      }
+      this.threadingOptions = threading;
+    }
+
+    if (options?.template) {
+      this.templates = this.validateTemplates(options.template);
+    }
+
+    if (options?.stackTrace) {
+      const stackTrace = options.stackTrace === true ? {} : options.stackTrace;
+      this.stackTraceOptions = {
+        sourceMaps: stackTrace.sourceMaps ?? true,
+        frames: stackTrace.frames ?? 5,
+        attachToFile: stackTrace.attachToFile ?? true
+      };
+      if (!Number.isInteger(this.stackTraceOptions.frames) || this.stackTraceOptions.frames < 1) {
+        throw new Error('error-notifier: stackTrace.frames must be a whole number of at least 1');
+      }
+    }
+
+    if (options?.links) {
+      if (typeof options.links !== 'object' || Object.values(options.links).some(url => typeof url !== 'string')) {
+        throw new Error('error-notifier: links must map names to URL strings');
+      }
+      this.links = { ...options.links };
+    }
+
+    const metadataKeys: (keyof AlertMetadata)[] = ['environment', 'release', 'serviceName', 'serverName'];
+    metadataKeys.forEach(key => {
+      const value: unknown = options?.[key];
+      if (value !== undefined && (typeof value !== 'string' || !value)) {
+        throw new Error(`error-notifier: ${key} must be a non-empty string`);
+      }
+    });
+    this.metadata = detectMetadata({
+      environment: options?.environment,
+      release: options?.release,
+      serviceName: options?.serviceName,
+      serverName: options?.serverName
+    });
+
+    if (options?.severitiesByEnvironment) {
+      this.severitiesByEnvironment = this.validateSeveritiesByEnvironment(options.severitiesByEnvironment);
+    }
+
+    if (options?.transports) {
+      options.transports.forEach(transport => {
+        if (!transport || typeof transport.send !== 'function') {
+          throw new Error('error-notifier: Every transport must implement send(payload)');
+        }
+      });
+      this.transports = [...options.transports];
+    }
+
+    if (options?.dedupe) {
+      const dedupe = options.dedupe === true ? {} : options.dedupe;
+      const windowMs = dedupe.windowMs ?? 60000;
+      if (windowMs <= 0) {
+        throw new Error('error-notifier: dedupe.windowMs must be greater than 0');
+      }
+      this.dedupeOptions = { windowMs, stackFrames: dedupe.stackFrames ?? 3 };
+    }
+
+    if (options?.rateLimit) {
+      this.rateLimitOptions = this.validateRateLimit(options.rateLimit);
+    }
+
+    // With the outbox on, let it own retries instead of the SDK's long in-process backoff
+    this.initialize(slackToken, channelName, channelId, this.retryOptions
+      ? { retryConfig: { retries: 0 }, rejectRateLimitedCalls: true }
+      : {}, options?.tempDir, options?.attachmentStorage, options?.slackClient);
 
     if (options?.autoDeleteFiles !== undefined) {
       this.autoDeleteFiles = options.autoDeleteFiles;
     }
 
-    console.log(`✅ error-notifier: Initialized with channel: ${channelName}`);
+    this.log.info('Initialized', { channel: channelName, channelId });
+  }
+
+  /**
+   * Forget everything so init() can be called again
+   */
+  reset(): void {
+    this.isInitialized = false;
+    this.slackToken = '';
+    this.defaultChannelName = '';
+    this.defaultChannelId = '';
+    this.slackClient = null;
+    this.autoDeleteFiles = true;
+    this.tempDir = '';
+    this.spool = null;
+    this.transports = [];
+    this.dedupeOptions = null;
+    this.rateLimitOptions = null;
+    this.retryOptions = null;
+    this.redactor = null;
+    this.digestOptions = null;
+    this.router = null;
+    this.attachmentOptions = null;
+    this.interactiveOptions = null;
+    this.threadingOptions = null;
+    this.templates = {};
+    this.stackTraceOptions = null;
+    this.links = {};
+    this.metadata = {};
+    this.severitiesByEnvironment = {};
+    this.log.configure();
+    this.scopeOptions = { maxBreadcrumbs: 50, breadcrumbsInMessage: 10, attachToFile: false };
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getLog(): DiagnosticLog {
+    return this.log;
   }
 
-  getSlackClient(): WebClient {
+  getSlackClient(): SlackApiClient {
     if (!this.slackClient) {
       throw new Error('Slack client not initialized');
     }
     return this.slackClient;
   }
 
+  /**
+   * Swap the client of an initialized store (e.g. for a FakeSlackClient)
+   */
+  setSlackClient(client: SlackApiClient): void {
+    if (!this.isInitialized) {
+      throw new Error('error-notifier: Not initialized');
+    }
+    this.slackClient = client;
+  }
+
   getDefaultChannelName(): string {
     return this.defaultChannelName;
   }
@@ -120,755 +353,6350 @@ class ConfigStore {
   getTempDir(): string {
     return this.tempDir;
   }
-}
 
-// ============================================
-// 2. EVENT NAMES
-// ============================================
-const EVENTS = {
-  HIGH_ALERT: 'high-alert',
-  MEDIUM_ALERT: 'medium-alert',
-  LOW_ALERT: 'low-alert',
-  INTERNAL_ERROR: 'internal-error'
-} as const;
+  getSpool(): FileSpool {
+    if (!this.spool) {
+      throw new Error('File storage not initialized');
+    }
+    return this.spool;
+  }
 
-// ============================================
-// 3. FILE CREATOR WITH FORMAT CONVERSION
-// ============================================
-class FileCreator {
-  constructor(private config: ConfigStore) { }
+  getTransports(): Transport[] {
+    return this.transports;
+  }
 
-  /**
-   * Create file from data with optional format conversion
-   */
-  createFileFromData(
-    data: any,
-    options: {
-      fileName?: string;
-      // Direct creation mode
-      fileType?: 'txt' | 'json' | 'csv';
-      // Conversion mode
-      from?: 'txt' | 'json' | 'csv';
-      to?: 'txt' | 'json' | 'csv';
-      csvHeaders?: string[];
-    } = {}
-  ): string {
-    // Validate options
-    this.validateOptions(options);
+  getDedupeOptions(): Required<DedupeOptions> | null {
+    return this.dedupeOptions;
+  }
 
-    // Determine output format
-    let outputFormat: 'txt' | 'json' | 'csv';
-    let shouldConvert = false;
+  getRateLimitOptions(): ResolvedRateLimitOptions | null {
+    return this.rateLimitOptions;
+  }
 
-    if (options.from && options.to) {
-      // Conversion mode
-      outputFormat = options.to;
-      shouldConvert = true;
-    } else if (options.fileType) {
-      // Direct creation mode
-      outputFormat = options.fileType;
-      shouldConvert = false;
-    } else {
-      // Default mode
-      outputFormat = 'txt';
-      shouldConvert = false;
-    }
+  getRetryOptions(): Required<RetryOptions> | null {
+    return this.retryOptions;
+  }
 
-    // Generate filename if not provided
-    let fileName = options.fileName;
-    if (!fileName) {
-      const timestamp = new Date().getTime();
-      const random = crypto.randomBytes(4).toString('hex');
-      fileName = `alert-${timestamp}-${random}.${outputFormat}`;
-    } else if (!fileName.includes('.')) {
-      // Add extension if missing
-      fileName = `${fileName}.${outputFormat}`;
-    }
+  getRedactor(): Redactor | null {
+    return this.redactor;
+  }
 
-    const filePath = path.join(this.config.getTempDir(), fileName);
+  getScopeOptions(): Required<ScopeOptions> {
+    return this.scopeOptions;
+  }
 
-    // Process data based on mode
-    if (shouldConvert && options.from && options.to) {
-      // CONVERSION MODE
-      this.convertAndCreateFile(filePath, data, options.from, options.to, options.csvHeaders);
-    } else {
-      // DIRECT CREATION MODE
-      this.createFileDirectly(filePath, data, outputFormat, options.csvHeaders);
-    }
+  getScopes(): ScopeManager {
+    return this.scopes;
+  }
 
-    console.log(`📄 Created ${outputFormat.toUpperCase()} file: ${fileName}`);
-    return filePath;
+  getDigestOptions(): ResolvedDigestOptions | null {
+    return this.digestOptions;
   }
 
-  /**
-   * Validate that options are valid
-   */
-  private validateOptions(options: any): void {
-    const hasFileType = !!options.fileType;
-    const hasFrom = !!options.from;
-    const hasTo = !!options.to;
+  getRouter(): Router | null {
+    return this.router;
+  }
 
-    // Cannot use both modes
-    if (hasFileType && (hasFrom || hasTo)) {
-      throw new Error('Cannot use both fileType and from/to options together. Use either fileType for direct creation or from/to for conversion.');
-    }
+  getAttachmentOptions(): ResolvedAttachmentOptions | null {
+    return this.attachmentOptions;
+  }
 
-    // from and to must be used together
-    if ((hasFrom && !hasTo) || (!hasFrom && hasTo)) {
-      throw new Error('Both "from" and "to" options must be provided together for format conversion.');
-    }
+  getInteractiveOptions(): Required<InteractiveOptions> | null {
+    return this.interactiveOptions;
+  }
 
-    // Validate format values
-    const validFormats = ['txt', 'json', 'csv'];
-    if (options.fileType && !validFormats.includes(options.fileType)) {
-      throw new Error(`Invalid fileType: ${options.fileType}. Must be one of: ${validFormats.join(', ')}`);
-    }
-    if (options.from && !validFormats.includes(options.from)) {
-      throw new Error(`Invalid from format: ${options.from}. Must be one of: ${validFormats.join(', ')}`);
-    }
-    if (options.to && !validFormats.includes(options.to)) {
-      throw new Error(`Invalid to format: ${options.to}. Must be one of: ${validFormats.join(', ')}`);
-    }
+  getThreadingOptions(): Required<ThreadingOptions> | null {
+    return this.threadingOptions;
+  }
 
-    // Cannot convert to same format
-    if (options.from && options.to && options.from === options.to) {
-      throw new Error(`Cannot convert from ${options.from} to ${options.to} (same format). Use fileType option instead.`);
-    }
+  getTemplate(severity: Severity): MessageTemplate {
+    return this.templates[severity] || 'default';
   }
 
-  /**
-   * Convert data and create file
-   */
-  private convertAndCreateFile(
-    filePath: string,
-    data: any,
-    from: 'txt' | 'json' | 'csv',
-    to: 'txt' | 'json' | 'csv',
-    csvHeaders?: string[]
-  ): void {
-    // Convert based on source and target formats
-    switch (from) {
-      case 'json':
-        if (to === 'csv') {
-          this.createCsvFile(filePath, this.parseJsonData(data), csvHeaders);
-        } else if (to === 'txt') {
-          this.createTextFile(filePath, this.parseJsonData(data));
-        }
-        break;
+  getStackTraceOptions(): Required<StackTraceOptions> | null {
+    return this.stackTraceOptions;
+  }
 
-      case 'csv':
-        if (to === 'json') {
-          this.createJsonFile(filePath, this.parseCsvData(data, csvHeaders));
-        } else if (to === 'txt') {
-          this.createTextFile(filePath, this.parseCsvData(data, csvHeaders));
-        }
-        break;
+  getLinks(): Record<string, string> {
+    return this.links;
+  }
 
-      case 'txt':
-        if (to === 'json') {
-          this.createJsonFile(filePath, this.parseTextData(data));
-        } else if (to === 'csv') {
-          this.createCsvFile(filePath, this.parseTextData(data), csvHeaders);
-        }
-        break;
-    }
+  getEnvironment(): string | undefined {
+    return this.metadata.environment;
+  }
+
+  getMetadata(): AlertMetadata {
+    return this.metadata;
   }
 
   /**
-   * Direct file creation (no conversion)
+   * Severities sent in the current environment - all of them unless severitiesByEnvironment lists it
    */
-  private createFileDirectly(
-    filePath: string,
-    data: any,
-    fileType: 'txt' | 'json' | 'csv',
-    csvHeaders?: string[]
-  ): void {
-    switch (fileType) {
-      case 'txt':
-        this.createTextFile(filePath, data);
-        break;
-
-      case 'json':
-        this.createJsonFile(filePath, data);
-        break;
-
-      case 'csv':
-        this.createCsvFile(filePath, data, csvHeaders);
-        break;
+  getEnvironmentSeverities(): Severity[] {
+    const environment = this.metadata.environment;
+    return (environment && this.severitiesByEnvironment[environment]) || ['HIGH', 'MEDIUM', 'LOW'];
+  }
 
-      default:
-        throw new Error(`Unsupported file type: ${fileType}`);
+  private validateSeveritiesByEnvironment(filters: Record<string, Severity[]>): Record<string, Severity[]> {
+    if (typeof filters !== 'object' || Array.isArray(filters)) {
+      throw new Error('error-notifier: severitiesByEnvironment must map environment names to lists of severities');
     }
+    Object.entries(filters).forEach(([environment, severities]) => {
+      if (!Array.isArray(severities) || severities.some(severity => !['HIGH', 'MEDIUM', 'LOW'].includes(severity))) {
+        throw new Error(`error-notifier: severitiesByEnvironment.${environment} must be a list of HIGH, MEDIUM and LOW`);
+      }
+    });
+    return { ...filters };
   }
 
-  /**
-   * Parse JSON data (handle strings, objects, arrays)
-   */
-  private parseJsonData(data: any): any {
-    if (typeof data === 'string') {
-      try {
-        return JSON.parse(data);
-      } catch (error) {
-        throw new Error('Invalid JSON string provided for conversion');
+  private validateTemplates(template: MessageTemplate | SeverityTemplates): SeverityTemplates {
+    const check = (candidate: unknown, at: string) => {
+      if (typeof candidate === 'string' ? !BUILT_IN_TEMPLATES.includes(candidate as BuiltInTemplate)
+        : typeof candidate !== 'function' && !Array.isArray(candidate)) {
+        throw new Error(`error-notifier: ${at} must be one of ${BUILT_IN_TEMPLATES.join(', ')}, a builder function or an array of blocks`);
       }
+    };
+
+    if (typeof template === 'string' || typeof template === 'function' || Array.isArray(template)) {
+      check(template, 'template');
+      return { HIGH: template, MEDIUM: template, LOW: template };
     }
-    return data;
+
+    Object.entries(template).forEach(([severity, candidate]) => {
+      if (!(severity in SEVERITY_RANK)) {
+        throw new Error(`error-notifier: template keys must be HIGH, MEDIUM or LOW (got ${severity})`);
+      }
+      check(candidate, `template.${severity}`);
+    });
+    return { ...template };
   }
 
-  /**
-   * Parse CSV data to array of objects or arrays
-   */
-  private parseCsvData(csvString: string, headers?: string[]): any[] {
-    if (typeof csvString !== 'string') {
-      throw new Error('CSV data must be a string for conversion');
+  private validateInteractive(interactive: InteractiveOptions): Required<InteractiveOptions> {
+    const signingSecret = interactive.signingSecret || process.env.SLACK_SIGNING_SECRET;
+    if (!signingSecret) {
+      throw new Error('error-notifier: interactive.signingSecret (or SLACK_SIGNING_SECRET) is required to verify button clicks');
     }
 
-    const lines = csvString.trim().split('\n');
-    if (lines.length === 0) return [];
-
-    let result: any[] = [];
+    const actions = interactive.actions ?? ALERT_ACTIONS;
+    if (!Array.isArray(actions) || actions.length === 0 || actions.some(action => !ALERT_ACTIONS.includes(action))) {
+      throw new Error(`error-notifier: interactive.actions must be a non-empty list of: ${ALERT_ACTIONS.join(', ')}`);
+    }
 
-    if (headers) {
-      // Use provided headers
-      for (let i = 0; i < lines.length; i++) {
-        const values = this.parseCsvLine(lines[i]);
-        const obj: any = {};
-        headers.forEach((header, index) => {
-          obj[header] = values[index] || '';
-        });
-        result.push(obj);
-      }
-    } else {
-      // Auto-detect headers from first line
-      const firstLineHeaders = this.parseCsvLine(lines[0]);
-      for (let i = 1; i < lines.length; i++) {
-        const values = this.parseCsvLine(lines[i]);
-        const obj: any = {};
-        firstLineHeaders.forEach((header, index) => {
-          obj[header] = values[index] || '';
-        });
-        result.push(obj);
-      }
+    const snoozeMs = interactive.snoozeMs ?? 60 * 60 * 1000;
+    if (typeof snoozeMs !== 'number' || snoozeMs <= 0) {
+      throw new Error('error-notifier: interactive.snoozeMs must be greater than 0');
     }
 
-    return result;
+    return { signingSecret, actions, snoozeMs };
   }
 
-  /**
-   * Parse a single CSV line
-   */
-  /**
-   * Parse CSV data - FIXED to handle quoted values better
-   */
-  private parseCsvLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
+  private validateAttachments(attachments: AttachmentOptions): ResolvedAttachmentOptions {
+    const checkBytes = (name: string, value: unknown) => {
+      if (typeof value !== 'number' || value <= 0) {
+        throw new Error(`error-notifier: attachments.${name} must be a positive number of bytes`);
+      }
+    };
 
-    while (i < line.length) {
-      const char = line[i];
+    const resolved: ResolvedAttachmentOptions = {
+      compressAboveBytes: attachments.compressAboveBytes ?? 1024 * 1024,
+      compression: attachments.compression ?? 'gzip',
+      splitAboveBytes: attachments.splitAboveBytes ?? 25 * 1024 * 1024,
+      maxBytes: attachments.maxBytes ?? 100 * 1024 * 1024
+    };
 
-      if (char === '"') {
-        if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-          // Escaped quote
-          current += '"';
-          i += 2;
-          continue;
-        } else {
-          // Start/end quotes
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // End of field
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
+    if (resolved.compressAboveBytes !== false) checkBytes('compressAboveBytes', resolved.compressAboveBytes);
+    if (resolved.splitAboveBytes !== false) checkBytes('splitAboveBytes', resolved.splitAboveBytes);
+    checkBytes('maxBytes', resolved.maxBytes);
 
-      i++;
+    if (resolved.compression !== 'gzip' && resolved.compression !== 'zip') {
+      throw new Error('error-notifier: attachments.compression must be one of: gzip, zip');
     }
 
-    // Add last field
-    result.push(current);
-    return result;
+    return resolved;
   }
 
-  /**
- * Parse text data for conversion to CSV/JSON
- */
-  private parseTextData(text: string): any {
+  private validateRoutes(routes: RouteRule[]): RouteRule[] {
+    if (!Array.isArray(routes)) {
+      throw new Error('error-notifier: routes must be an array of rules');
+    }
+
+    return routes.map((rule, index) => {
+      if (!rule.channels?.length && !rule.mentions?.length) {
+        throw new Error(`error-notifier: routes[${index}] needs channels, mentions or both`);
+      }
+      rule.channels?.forEach(channel => {
+        if (!channel.channelName || !channel.channelId) {
+          throw new Error(`error-notifier: routes[${index}].channels entries need a channelName and a channelId`);
+        }
+      });
+
+      // Compile string patterns once, and fail at init rather than on the first alert
+      const message = rule.match?.message;
+      if (typeof message === 'string') {
+        try {
+          return { ...rule, match: { ...rule.match, message: new RegExp(message) } };
+        } catch (error) {
+          throw new Error(`error-notifier: routes[${index}].match.message is not a valid pattern: ${messageOf(error)}`);
+        }
+      }
+      return rule;
+    });
+  }
+
+  private validateDigest(digest: DigestOptions): ResolvedDigestOptions {
+    const severities = digest.severities ?? ['LOW'];
+    if (severities.some(severity => severity !== 'LOW' && severity !== 'MEDIUM')) {
+      throw new Error('error-notifier: digest.severities may only contain LOW and MEDIUM');
+    }
+
+    const intervalMinutes = digest.intervalMinutes ?? 60;
+    if (!(intervalMinutes > 0 && intervalMinutes <= MAX_DIGEST_INTERVAL_MINUTES)) {
+      throw new Error(`error-notifier: digest.intervalMinutes must be greater than 0 and at most ${MAX_DIGEST_INTERVAL_MINUTES}`);
+    }
+
+    const at = digest.at === undefined ? [] : Array.isArray(digest.at) ? digest.at : [digest.at];
+    at.forEach(time => {
+      if (!/^([01]?\d|2[0-3]):[0-5]\d$/.test(time)) {
+        throw new Error(`error-notifier: Invalid digest time "${time}". Use HH:MM (24h)`);
+      }
+    });
+
+    return { severities, intervalMinutes, at, topOffenders: digest.topOffenders ?? 5 };
+  }
+
+  private validateRateLimit(rateLimit: RateLimitOptions): ResolvedRateLimitOptions {
+    const checkLimit = (name: string, value: unknown) => {
+      if (typeof value !== 'number' || value <= 0) {
+        throw new Error(`error-notifier: rateLimit.${name} must be a positive number of alerts per minute`);
+      }
+    };
+
+    Object.entries(rateLimit.perSeverity || {}).forEach(([severity, limit]) => {
+      checkLimit(`perSeverity.${severity}`, limit);
+    });
+
+    if (typeof rateLimit.perChannel === 'object') {
+      Object.entries(rateLimit.perChannel).forEach(([channel, limit]) => {
+        checkLimit(`perChannel.${channel}`, limit);
+      });
+    } else if (rateLimit.perChannel !== undefined) {
+      checkLimit('perChannel', rateLimit.perChannel);
+    }
+
+    const overflow = rateLimit.overflow || 'queue';
+    if (!['queue', 'drop', 'digest'].includes(overflow)) {
+      throw new Error('error-notifier: rateLimit.overflow must be one of: queue, drop, digest');
+    }
+
+    return { ...rateLimit, overflow, maxQueueSize: rateLimit.maxQueueSize ?? 100 };
+  }
+}
+
+// ============================================
+// 2. LOGGING (pluggable, silent by default)
+// ============================================
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the library's own diagnostics. A pino logger fits as it is, and
+ * winston loggers are recognised and called the way winston expects.
+ */
+interface Logger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * winston loggers take `(message, meta)`, or a single info object via log()
+ */
+function isWinstonLogger(logger: any): logger is { log(info: LogFields): void } {
+  return Array.isArray(logger?.transports) && typeof logger.log === 'function';
+}
+
+/**
+ * Per-alerter diagnostics - dropped unless a logger was configured
+ */
+class DiagnosticLog {
+  private logger: Logger | null = null;
+  private minLevel = LOG_LEVELS.indexOf('info');
+
+  constructor(private alerter: string) { }
+
+  configure(logger?: Logger, level: LogLevel = 'info'): void {
+    this.logger = logger || null;
+    this.minLevel = LOG_LEVELS.indexOf(level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    const logger = this.logger;
+    if (!logger || LOG_LEVELS.indexOf(level) < this.minLevel) return;
+
+    const entry = { alerter: this.alerter, ...fields };
+    try {
+      if (isWinstonLogger(logger)) {
+        logger.log({ ...entry, level, message });
+      } else {
+        logger[level](entry, message);
+      }
+    } catch {
+      // A broken logger must never take alerting down with it
+    }
+  }
+}
+
+// ============================================
+// 3. CONFIG FILE (schema, env interpolation, hot reload)
+// ============================================
+const CONFIG_FILE_NAMES = [
+  'alert-sentry.config.json',
+  'alert-sentry.config.yaml',
+  'alert-sentry.config.yml',
+  'alert-sentry.config.js'
+];
+
+interface ConfigFileOptions {
+  // Re-read the file when it changes and apply it without a restart (default: false)
+  watch?: boolean;
+  // How often the file is checked for changes (default: 2s)
+  watchIntervalMs?: number;
+}
+
+/**
+ * A config file that could not be read or does not match the schema.
+ * `issues` has one entry per problem, each starting with its path (e.g. $.routes[0].channels).
+ */
+class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length ? `${message}\n  - ${issues.join('\n  - ')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+// The subset of JSON Schema (draft-07) the validator below understands
+interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  pattern?: string;
+  format?: 'regex';
+  anyOf?: JsonSchema[];
+}
+
+const SEVERITY_SCHEMA: JsonSchema = { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] };
+const POSITIVE_NUMBER_SCHEMA: JsonSchema = { type: 'number', exclusiveMinimum: 0 };
+const CHANNEL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['channelName', 'channelId'],
+  properties: { channelName: { type: 'string' }, channelId: { type: 'string' } },
+  additionalProperties: false
+};
+
+// Builder functions can only be passed to init() in code
+const TEMPLATE_SCHEMA: JsonSchema = {
+  anyOf: [
+    { type: 'string', enum: ['default', 'compact', 'detailed', 'runbook'] },
+    { type: 'array', items: { type: 'object' } }
+  ]
+};
+
+const oneOrMany = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'array', items: schema }] });
+
+const TRANSPORT_SCHEMA: JsonSchema = {
+  anyOf: [
+    {
+      type: 'object',
+      required: ['type', 'url'],
+      properties: {
+        type: { const: 'webhook' },
+        url: { type: 'string', pattern: '^https?://' },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        includeFileContent: { type: 'boolean' },
+        name: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      required: ['type', 'webhookUrl'],
+      properties: { type: { const: 'teams' }, webhookUrl: { type: 'string', pattern: '^https?://' } },
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      required: ['type', 'webhookUrl'],
+      properties: {
+        type: { const: 'discord' },
+        webhookUrl: { type: 'string', pattern: '^https?://' },
+        username: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      required: ['type', 'transporter', 'from', 'to'],
+      properties: {
+        type: { const: 'email' },
+        // A nodemailer-style transporter - .js configs only
+        transporter: { type: 'object', required: ['sendMail'] },
+        from: { type: 'string' },
+        to: oneOrMany({ type: 'string' }),
+        subjectPrefix: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      required: ['type'],
+      properties: { type: { const: 'file' }, filePath: { type: 'string' } },
+      additionalProperties: false
+    }
+  ]
+};
+
+/**
+ * JSON Schema for alert-sentry.config.* - exported so editors and CI can validate too
+ */
+const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'prod-alert-sentry configuration',
+  type: 'object',
+  required: ['slack'],
+  properties: {
+    $schema: { type: 'string' },
+    slack: {
+      type: 'object',
+      required: ['token', 'channelName', 'channelId'],
+      properties: {
+        token: { type: 'string', pattern: '^xoxb-' },
+        channelName: { type: 'string' },
+        channelId: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    autoDeleteFiles: { type: 'boolean' },
+    tempDir: { type: 'string' },
+    attachmentStorage: { type: 'string', enum: ['disk', 'memory'] },
+    logLevel: { type: 'string', enum: ['debug', 'info', 'warn', 'error'] },
+    interactive: {
+      type: ['boolean', 'object'],
+      properties: {
+        signingSecret: { type: 'string' },
+        actions: { type: 'array', minItems: 1, items: { type: 'string', enum: ['acknowledge', 'resolve', 'snooze', 'assign'] } },
+        snoozeMs: POSITIVE_NUMBER_SCHEMA
+      },
+      additionalProperties: false
+    },
+    template: {
+      anyOf: [
+        TEMPLATE_SCHEMA,
+        {
+          type: 'object',
+          properties: { HIGH: TEMPLATE_SCHEMA, MEDIUM: TEMPLATE_SCHEMA, LOW: TEMPLATE_SCHEMA },
+          additionalProperties: false
+        }
+      ]
+    },
+    links: { type: 'object', additionalProperties: { type: 'string' } },
+    stackTrace: {
+      type: ['boolean', 'object'],
+      properties: {
+        sourceMaps: { type: 'boolean' },
+        frames: { type: 'integer', minimum: 1 },
+        attachToFile: { type: 'boolean' }
+      },
+      additionalProperties: false
+    },
+    environment: { type: 'string' },
+    release: { type: 'string' },
+    serviceName: { type: 'string' },
+    serverName: { type: 'string' },
+    severitiesByEnvironment: { type: 'object', additionalProperties: { type: 'array', items: SEVERITY_SCHEMA } },
+    threading: {
+      type: ['boolean', 'object'],
+      properties: {
+        byFingerprint: { type: 'boolean' },
+        byCorrelationId: { type: 'boolean' },
+        windowMs: POSITIVE_NUMBER_SCHEMA,
+        maxThreads: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    },
+    dedupe: {
+      type: ['boolean', 'object'],
+      properties: { windowMs: POSITIVE_NUMBER_SCHEMA, stackFrames: { type: 'integer', minimum: 0 } },
+      additionalProperties: false
+    },
+    rateLimit: {
+      type: 'object',
+      properties: {
+        perSeverity: {
+          type: 'object',
+          properties: { HIGH: POSITIVE_NUMBER_SCHEMA, MEDIUM: POSITIVE_NUMBER_SCHEMA, LOW: POSITIVE_NUMBER_SCHEMA },
+          additionalProperties: false
+        },
+        perChannel: { anyOf: [POSITIVE_NUMBER_SCHEMA, { type: 'object', additionalProperties: POSITIVE_NUMBER_SCHEMA }] },
+        overflow: { type: 'string', enum: ['queue', 'drop', 'digest'] },
+        maxQueueSize: { type: 'integer', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    retry: {
+      type: ['boolean', 'object'],
+      properties: {
+        maxAttempts: { type: 'integer', minimum: 1 },
+        baseDelayMs: POSITIVE_NUMBER_SCHEMA,
+        maxDelayMs: POSITIVE_NUMBER_SCHEMA
+      },
+      additionalProperties: false
+    },
+    redact: {
+      type: ['boolean', 'object'],
+      properties: {
+        keys: { type: 'array', items: { type: 'string' } },
+        patterns: { type: 'array', items: { type: 'string', format: 'regex' } },
+        detectors: { type: 'array', items: { type: 'string', enum: ['jwt', 'slackToken', 'creditCard', 'email'] } },
+        // Scrubber functions - .js configs only, checked by init()
+        custom: { type: 'array' },
+        replacement: { type: 'string' }
+      },
+      additionalProperties: false
+    },
+    digest: {
+      type: ['boolean', 'object'],
+      properties: {
+        severities: { type: 'array', items: { type: 'string', enum: ['LOW', 'MEDIUM'] } },
+        intervalMinutes: POSITIVE_NUMBER_SCHEMA,
+        at: oneOrMany({ type: 'string', pattern: '^([01]?\\d|2[0-3]):[0-5]\\d$' }),
+        topOffenders: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    },
+    scope: {
+      type: 'object',
+      properties: {
+        maxBreadcrumbs: { type: 'integer', minimum: 1 },
+        breadcrumbsInMessage: { type: 'integer', minimum: 0 },
+        attachToFile: { type: 'boolean' }
+      },
+      additionalProperties: false
+    },
+    routes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          match: {
+            type: 'object',
+            properties: {
+              severity: oneOrMany(SEVERITY_SCHEMA),
+              tags: { type: 'object', additionalProperties: { type: 'string' } },
+              errorClass: oneOrMany({ type: 'string' }),
+              message: { type: 'string', format: 'regex' },
+              service: oneOrMany({ type: 'string' }),
+              environment: oneOrMany({ type: 'string' }),
+              release: oneOrMany({ type: 'string' }),
+              serverName: oneOrMany({ type: 'string' })
+            },
+            additionalProperties: false
+          },
+          channels: { type: 'array', minItems: 1, items: CHANNEL_SCHEMA },
+          mentions: { type: 'array', minItems: 1, items: { type: 'string' } },
+          continue: { type: 'boolean' }
+        },
+        additionalProperties: false
+      }
+    },
+    attachments: {
+      type: ['boolean', 'object'],
+      properties: {
+        compressAboveBytes: { anyOf: [POSITIVE_NUMBER_SCHEMA, { type: 'boolean', const: false }] },
+        compression: { type: 'string', enum: ['gzip', 'zip'] },
+        splitAboveBytes: { anyOf: [POSITIVE_NUMBER_SCHEMA, { type: 'boolean', const: false }] },
+        maxBytes: POSITIVE_NUMBER_SCHEMA
+      },
+      additionalProperties: false
+    },
+    transports: { type: 'array', items: TRANSPORT_SCHEMA }
+  },
+  additionalProperties: false
+};
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Collect every mismatch between `value` and `schema` into `issues`
+ */
+function validateSchema(value: any, schema: JsonSchema, at: string, issues: string[]): void {
+  // Transport instances (from .js configs) are not described by the schema
+  if (schema === TRANSPORT_SCHEMA && typeof value?.send === 'function') return;
+
+  if (schema.anyOf) {
+    // Only branches of the right type (and `type` property, for transports) are worth reporting on
+    const candidates = schema.anyOf.filter(branch => {
+      const types = toList(branch.type);
+      const kind = branch.properties?.type?.const;
+      return (!types || types.some(type => matchesType(value, type))) && (kind === undefined || value?.type === kind);
+    });
+
+    if (candidates.length === 0) {
+      const kinds = schema.anyOf.map(branch => branch.properties?.type?.const).filter(kind => kind !== undefined);
+      const types = new Set(schema.anyOf.flatMap(branch => toList(branch.type) || []));
+      issues.push(kinds.length && matchesType(value, 'object')
+        ? `${at}.type must be one of: ${kinds.join(', ')}`
+        : `${at} must be ${[...types].join(' or ')}`);
+      return;
+    }
+
+    const attempts = candidates.map(branch => {
+      const branchIssues: string[] = [];
+      validateSchema(value, branch, at, branchIssues);
+      return branchIssues;
+    });
+    if (attempts.some(attempt => attempt.length === 0)) return;
+
+    // Report against the closest branch - the one with the fewest problems
+    issues.push(...attempts.reduce((closest, attempt) => attempt.length < closest.length ? attempt : closest));
+    return;
+  }
+
+  // Regex options take RegExp objects from .js configs as they are
+  if (schema.format === 'regex' && value instanceof RegExp) return;
+
+  const types = toList(schema.type);
+  if (types && !types.some(type => matchesType(value, type))) {
+    issues.push(`${at} must be ${types.join(' or ')}`);
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push(`${at} must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(`${at} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${at} must be at least ${schema.minimum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push(`${at} must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push(`${at} must match ${schema.pattern}`);
+    }
+    if (schema.format === 'regex') {
+      try {
+        new RegExp(value);
+      } catch (error) {
+        issues.push(`${at} is not a valid regular expression (${messageOf(error)})`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${at} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateSchema(item, schema.items!, `${at}[${index}]`, issues));
+    }
+  } else if (matchesType(value, 'object')) {
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) issues.push(`${at}.${key} is required`);
+    });
+
+    Object.entries(value).forEach(([key, child]) => {
+      if (child === undefined) return;
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validateSchema(child, childSchema, `${at}.${key}`, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${at}.${key} is not a known option`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateSchema(child, schema.additionalProperties, `${at}.${key}`, issues);
+      }
+    });
+  }
+}
+
+/**
+ * Replace ${VAR} and ${VAR:-fallback} in every string of a parsed config
+ */
+function interpolateEnv(value: any, at: string, issues: string[]): any {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (placeholder, name: string, fallback?: string) => {
+      const resolved = process.env[name] ?? fallback;
+      if (resolved === undefined) {
+        issues.push(`${at} uses \${${name}} but that environment variable is not set`);
+        return placeholder;
+      }
+      return resolved;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, `${at}[${index}]`, issues));
+  }
+
+  // Plain objects only - class instances from .js configs are left alone
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, any> = {};
+    Object.entries(value).forEach(([key, child]) => {
+      result[key] = interpolateEnv(child, `${at}.${key}`, issues);
+    });
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * First alert-sentry.config.* in `directory`, if any
+ */
+function findConfigFile(directory: string): string | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = path.join(directory, fileName);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+function parseConfigFile(filePath: string): any {
+  const fileName = path.basename(filePath);
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.js' || extension === '.cjs') {
+    // Drop the cached module so a reload sees the new contents
+    delete require.cache[require.resolve(filePath)];
+    const loaded = require(filePath);
+    return loaded?.default ?? loaded;
+  }
+
+  const text = fs.readFileSync(filePath, 'utf8');
+
+  if (extension === '.yaml' || extension === '.yml') {
+    const yaml = requireYaml();
+    if (!yaml) {
+      throw new ConfigError(`error-notifier: Install the "yaml" package to load ${fileName}`);
+    }
+    try {
+      return yaml.parse(text);
+    } catch (error) {
+      throw new ConfigError(`error-notifier: ${fileName} is not valid YAML: ${messageOf(error)}`);
+    }
+  }
+
+  if (extension === '.json') {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ConfigError(`error-notifier: ${fileName} is not valid JSON: ${messageOf(error)}`);
+    }
+  }
+
+  throw new ConfigError(`error-notifier: Unsupported config file "${fileName}" - use .json, .yaml, .yml or .js`);
+}
+
+function createTransport(spec: any): Transport {
+  if (typeof spec.send === 'function') return spec;
+
+  const { type, ...options } = spec;
+  switch (type) {
+    case 'webhook': return new WebhookTransport(options);
+    case 'teams': return new TeamsTransport(options);
+    case 'discord': return new DiscordTransport(options);
+    case 'email': return new EmailTransport(options);
+    default: return new FileTransport(options);
+  }
+}
+
+interface LoadedConfig {
+  slackToken: string;
+  channelName: string;
+  channelId: string;
+  options: InitOptions;
+}
+
+/**
+ * Read, interpolate and validate a config file, and turn it into init() arguments
+ */
+function readConfigFile(filePath: string): LoadedConfig {
+  const issues: string[] = [];
+  const config = interpolateEnv(parseConfigFile(filePath), '$', issues);
+  validateSchema(config, CONFIG_SCHEMA, '$', issues);
+
+  if (issues.length) {
+    throw new ConfigError(`error-notifier: Invalid config in ${path.basename(filePath)}`, issues);
+  }
+
+  const { $schema, slack, redact, transports, ...options } = config;
+  return {
+    slackToken: slack.token,
+    channelName: slack.channelName,
+    channelId: slack.channelId,
+    options: {
+      ...options,
+      redact: redact && typeof redact === 'object'
+        ? { ...redact, patterns: redact.patterns?.map((pattern: string | RegExp) => new RegExp(pattern)) }
+        : redact,
+      transports: transports?.map(createTransport)
+    }
+  };
+}
+
+// ============================================
+// 4. EVENT NAMES
+// ============================================
+const EVENTS = {
+  HIGH_ALERT: 'high-alert',
+  MEDIUM_ALERT: 'medium-alert',
+  LOW_ALERT: 'low-alert',
+  INTERNAL_ERROR: 'internal-error',
+  ALERT_ACTION: 'alert-action'
+} as const;
+
+// ============================================
+// 5. FILE STORAGE (temp directory or memory)
+// ============================================
+type AttachmentStorage = 'disk' | 'memory';
+
+/**
+ * Destination for output written piece by piece
+ */
+interface FileSink {
+  write(text: string): void;
+  close(): void;
+}
+
+/**
+ * Where attachments are built. Paths are opaque keys for the memory store.
+ */
+interface FileSpool {
+  readonly inMemory: boolean;
+  // Path for a new file called `fileName`
+  resolve(fileName: string): string;
+  openSink(filePath: string): FileSink;
+  writeFile(filePath: string, content: string | Buffer): void;
+  appendFile(filePath: string, content: string): void;
+  readFile(filePath: string): Buffer;
+  // `end` is the inclusive offset of the last byte to read
+  createReadStream(filePath: string, end?: number): Readable;
+  createWriteStream(filePath: string): Writable;
+  size(filePath: string): number;
+  rename(from: string, to: string): void;
+  remove(filePath: string): Promise<void>;
+}
+
+/**
+ * Files in the temp directory - created on first use, never at import
+ */
+class DiskSpool implements FileSpool {
+  readonly inMemory = false;
+
+  constructor(private dir: string) { }
+
+  resolve(fileName: string): string {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+    return path.join(this.dir, fileName);
+  }
+
+  openSink(filePath: string): FileSink {
+    const fd = fs.openSync(filePath, 'w');
+    return {
+      write: text => { fs.writeSync(fd, text); },
+      close: () => fs.closeSync(fd)
+    };
+  }
+
+  writeFile(filePath: string, content: string | Buffer): void {
+    fs.writeFileSync(filePath, content);
+  }
+
+  appendFile(filePath: string, content: string): void {
+    fs.appendFileSync(filePath, content);
+  }
+
+  readFile(filePath: string): Buffer {
+    return fs.readFileSync(filePath);
+  }
+
+  createReadStream(filePath: string, end?: number): Readable {
+    return fs.createReadStream(filePath, { end });
+  }
+
+  createWriteStream(filePath: string): Writable {
+    return fs.createWriteStream(filePath);
+  }
+
+  size(filePath: string): number {
+    return fs.statSync(filePath).size;
+  }
+
+  rename(from: string, to: string): void {
+    fs.renameSync(from, to);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await fs.promises.unlink(filePath);
+  }
+}
+
+/**
+ * Files as Buffers - for read-only filesystems and serverless runtimes
+ */
+class MemorySpool implements FileSpool {
+  readonly inMemory = true;
+  private files = new Map<string, Buffer>();
+
+  resolve(fileName: string): string {
+    return `memory:/${fileName}`;
+  }
+
+  openSink(filePath: string): FileSink {
+    const chunks: string[] = [];
+    return {
+      write: text => { chunks.push(text); },
+      close: () => { this.files.set(filePath, Buffer.from(chunks.join(''))); }
+    };
+  }
+
+  writeFile(filePath: string, content: string | Buffer): void {
+    this.files.set(filePath, Buffer.from(content));
+  }
+
+  appendFile(filePath: string, content: string): void {
+    this.files.set(filePath, Buffer.concat([this.readFile(filePath), Buffer.from(content)]));
+  }
+
+  readFile(filePath: string): Buffer {
+    const content = this.files.get(filePath);
+    if (!content) {
+      throw new Error(`ENOENT: no such file in memory, '${filePath}'`);
+    }
+    return content;
+  }
+
+  createReadStream(filePath: string, end?: number): Readable {
+    const content = this.readFile(filePath);
+    return Readable.from([end === undefined ? content : content.subarray(0, end + 1)]);
+  }
+
+  createWriteStream(filePath: string): Writable {
+    const chunks: Buffer[] = [];
+    return new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        chunks.push(chunk);
+        callback();
+      },
+      final: callback => {
+        this.files.set(filePath, Buffer.concat(chunks));
+        callback();
+      }
+    });
+  }
+
+  size(filePath: string): number {
+    return this.readFile(filePath).length;
+  }
+
+  rename(from: string, to: string): void {
+    this.files.set(to, this.readFile(from));
+    this.files.delete(from);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    this.readFile(filePath);
+    this.files.delete(filePath);
+  }
+}
+
+// ============================================
+// 6. FILE FORMATS (registry and shared writers)
+// ============================================
+type BuiltInFileType = 'txt' | 'json' | 'csv' | 'ndjson' | 'yaml' | 'md' | 'html' | 'tsv';
+
+// Built-in formats, or the name of one added with registerFileFormat
+type FileType = BuiltInFileType | (string & {});
+
+interface FormatContext {
+  // csvHeaders from the alert options (used by every tabular format)
+  headers?: string[];
+  csv: CsvOptions;
+}
+
+/**
+ * A custom attachment format. `name` doubles as the file extension.
+ */
+interface FileFormat {
+  name: string;
+  // Render data as file content (enables fileType / to)
+  serialize(data: any, context: FormatContext): string | Buffer | Promise<string | Buffer>;
+  // Read input given in this format (enables from)
+  parse?(input: string, context: FormatContext): any;
+}
+
+const BUILT_IN_FILE_TYPES: BuiltInFileType[] = ['txt', 'json', 'csv', 'ndjson', 'yaml', 'md', 'html', 'tsv'];
+const customFormats = new Map<string, FileFormat>();
+
+/**
+ * Add (or replace) a custom attachment format, available to every alerter
+ */
+function registerFileFormat(format: FileFormat): void {
+  if (!format || !/^[a-z0-9]+$/.test(format.name || '')) {
+    throw new Error('error-notifier: File formats need a lowercase alphanumeric name');
+  }
+  if ((BUILT_IN_FILE_TYPES as string[]).includes(format.name)) {
+    throw new Error(`error-notifier: "${format.name}" is a built-in format and cannot be replaced`);
+  }
+  if (typeof format.serialize !== 'function') {
+    throw new Error(`error-notifier: File format "${format.name}" needs a serialize function`);
+  }
+  customFormats.set(format.name, format);
+}
+
+/**
+ * The `yaml` package, or null when it is not installed. It is an optional
+ * peer dependency - only YAML attachments and config files need it.
+ */
+function requireYaml(): { parse(text: string): any; stringify(value: any, replacer?: (key: string, value: unknown) => unknown): string } | null {
+  try {
+    return require('yaml');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * How a single value is rendered in a table cell (CSV, TSV, Markdown, HTML)
+ */
+function cellText(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  // Nested objects/arrays (and errors) become JSON strings
+  if (typeof value === 'object') return JSON.stringify(value, errorReplacer);
+  return String(value);
+}
+
+// Written output is buffered up to this many characters before it reaches the sink
+const WRITE_BUFFER_SIZE = 64 * 1024;
+
+/**
+ * Append-only file writer for output produced piece by piece
+ */
+class BufferedFileWriter {
+  private buffer: string[] = [];
+  private bufferedLength = 0;
+
+  constructor(private sink: FileSink) { }
+
+  write(text: string): void {
+    this.buffer.push(text);
+    this.bufferedLength += text.length;
+
+    if (this.bufferedLength >= WRITE_BUFFER_SIZE) {
+      this.flush();
+    }
+  }
+
+  close(): void {
+    try {
+      this.flush();
+    } finally {
+      this.sink.close();
+    }
+  }
+
+  private flush(): void {
+    if (this.buffer.length === 0) return;
+    this.sink.write(this.buffer.join(''));
+    this.buffer = [];
+    this.bufferedLength = 0;
+  }
+}
+
+// ============================================
+// 7. CSV ENGINE (RFC 4180, incremental)
+// ============================================
+interface CsvOptions {
+  // Field separator (default: ',')
+  delimiter?: string;
+  // Quote character (default: '"')
+  quote?: string;
+  // Record separator for written files (default: '\r\n' as in RFC 4180)
+  lineEnding?: '\n' | '\r\n';
+  // Turn numbers, booleans and ISO dates into typed values when reading (default: false)
+  inferTypes?: boolean;
+}
+
+function resolveCsvOptions(options: CsvOptions = {}): Required<CsvOptions> {
+  const resolved = {
+    delimiter: options.delimiter ?? ',',
+    quote: options.quote ?? '"',
+    lineEnding: options.lineEnding ?? '\r\n',
+    inferTypes: options.inferTypes ?? false
+  };
+
+  [['delimiter', resolved.delimiter], ['quote', resolved.quote]].forEach(([name, value]) => {
+    if (value.length !== 1 || value === '\r' || value === '\n') {
+      throw new Error(`CSV ${name} must be a single character other than a line break`);
+    }
+  });
+  if (resolved.delimiter === resolved.quote) {
+    throw new Error('CSV delimiter and quote must be different characters');
+  }
+  if (resolved.lineEnding !== '\n' && resolved.lineEnding !== '\r\n') {
+    throw new Error('CSV lineEnding must be "\\n" or "\\r\\n"');
+  }
+
+  return resolved;
+}
+
+/**
+ * '42' -> 42, 'true' -> true, '2024-01-31' -> Date. Leading zeros stay strings (zip codes, ids).
+ */
+function inferCsvValue(value: string): any {
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) return Number(value);
+  if (/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return value;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<any> {
+  return value !== null && typeof value === 'object' && Symbol.asyncIterator in value;
+}
+
+/**
+ * Incremental CSV reader - feed it chunks of any size, it returns the records
+ * completed so far. Quoted fields may contain delimiters, quotes ("") and line breaks.
+ */
+class CsvParser {
+  private options: Required<CsvOptions>;
+  private records: string[][] = [];
+  private record: string[] = [];
+  private field = '';
+  private fieldStarted = false;
+  private inQuotes = false;
+  // A quote inside a quoted field - either an escaped quote or the closing one
+  private quotePending = false;
+  private skipLineFeed = false;
+  private started = false;
+  private recordNumber = 1;
+
+  constructor(options: CsvOptions = {}) {
+    this.options = resolveCsvOptions(options);
+  }
+
+  write(chunk: string): string[][] {
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      // Excel likes to start files with a byte order mark
+      if (text.charCodeAt(0) === 0xfeff) text = text.substring(1);
+    }
+
+    const { delimiter, quote } = this.options;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === quote) {
+            this.field += quote;
+            continue;
+          }
+          // The previous quote closed the field - handle this character as unquoted
+          this.inQuotes = false;
+        } else {
+          if (char === quote) {
+            this.quotePending = true;
+          } else {
+            this.field += char;
+          }
+          continue;
+        }
+      }
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (char === quote && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+      } else if (char === delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.endRecord();
+        this.skipLineFeed = char === '\r';
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+
+    return this.take();
+  }
+
+  /**
+   * Flush the last record (files don't need a trailing line break)
+   */
+  end(): string[][] {
+    if (this.inQuotes && !this.quotePending) {
+      throw new Error(`CSV ends inside a quoted field (record ${this.recordNumber})`);
+    }
+    this.inQuotes = false;
+    this.quotePending = false;
+    this.endRecord();
+    return this.take();
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRecord(): void {
+    // Blank lines are not records
+    if (this.record.length === 0 && !this.fieldStarted) return;
+
+    this.endField();
+    this.records.push(this.record);
+    this.record = [];
+    this.recordNumber++;
+  }
+
+  private take(): string[][] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+}
+
+/**
+ * Buffered, row-at-a-time CSV file writer
+ */
+class CsvWriter extends BufferedFileWriter {
+  private options: Required<CsvOptions>;
+  private needsQuotes: RegExp;
+
+  constructor(sink: FileSink, options: CsvOptions = {}) {
+    const resolved = resolveCsvOptions(options);
+    super(sink);
+    this.options = resolved;
+    const escape = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    this.needsQuotes = new RegExp(`[${escape(resolved.delimiter)}${escape(resolved.quote)}\\r\\n]`);
+  }
+
+  writeRow(cells: any[]): void {
+    this.write(cells.map(cell => this.formatCell(cell)).join(this.options.delimiter) + this.options.lineEnding);
+  }
+
+  private formatCell(value: any): string {
+    const text = cellText(value);
+    const { quote } = this.options;
+    return this.needsQuotes.test(text) ? `${quote}${text.split(quote).join(quote + quote)}${quote}` : text;
+  }
+}
+
+// ============================================
+// 8. ERROR SERIALIZATION (causes, aggregates, custom fields)
+// ============================================
+interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  // Own enumerable fields such as code, statusCode or an HTTP client's response
+  [field: string]: unknown;
+  // error.cause, serialized the same way when it is an Error
+  cause?: unknown;
+  // AggregateError.errors
+  errors?: unknown[];
+}
+
+/**
+ * Message of anything that was thrown
+ */
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Set by the Error constructor or handled on their own
+const STANDARD_ERROR_KEYS = ['name', 'message', 'stack', 'cause', 'errors'];
+
+// Cause chains and nested fields are cut off below this depth
+const MAX_SERIALIZE_DEPTH = 10;
+
+/**
+ * Own enumerable fields an error carries beyond the standard ones
+ */
+function errorFields(error: Error): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of Object.keys(error)) {
+    if (!STANDARD_ERROR_KEYS.includes(key)) {
+      fields[key] = (error as any)[key];
+    }
+  }
+  return fields;
+}
+
+/**
+ * A JSON-safe copy of an error with its cause chain, aggregated errors and
+ * custom fields. References back up the chain become "[Circular]".
+ */
+function serializeError(error: Error): SerializedError {
+  return serializeValue(error, new Set(), 0) as SerializedError;
+}
+
+function serializeValue(value: unknown, ancestors: Set<object>, depth: number): unknown {
+  if (value === null || value === undefined || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value !== 'object') return undefined; // functions and symbols
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (ancestors.has(value)) return '[Circular]';
+  if (depth >= MAX_SERIALIZE_DEPTH) return Array.isArray(value) ? '[Array]' : `[${value.constructor?.name || 'Object'}]`;
+
+  const prototype = Object.getPrototypeOf(value);
+  if (!(value instanceof Error) && !Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    // Sockets, requests and other live objects
+    return `[${value.constructor?.name || 'Object'}]`;
+  }
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map(item => serializeValue(item, ancestors, depth + 1) ?? null);
+    }
+
+    const result: Record<string, unknown> = {};
+    if (value instanceof Error) {
+      result.name = value.name;
+      result.message = value.message;
+      if (value.stack) result.stack = value.stack;
+    }
+
+    const fields = value instanceof Error ? errorFields(value) : value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(fields)) {
+      const serialized = serializeValue(field, ancestors, depth + 1);
+      if (serialized !== undefined) result[key] = serialized;
+    }
+
+    if (value instanceof Error) {
+      if ('cause' in value && value.cause !== undefined) {
+        result.cause = serializeValue(value.cause, ancestors, depth + 1);
+      }
+      if (Array.isArray((value as any).errors)) {
+        result.errors = serializeValue((value as any).errors, ancestors, depth + 1);
+      }
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * JSON.stringify replacer that keeps errors nested in attachment data
+ */
+function errorReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Error ? serializeError(value) : value;
+}
+
+function isSerializedError(value: unknown): value is SerializedError {
+  return !!value && typeof value === 'object' && typeof (value as any).name === 'string' && typeof (value as any).message === 'string';
+}
+
+/**
+ * `code: E_TIMEOUT, statusCode: 504` - objects are shown as short JSON
+ */
+function describeFields(error: SerializedError): string {
+  return Object.keys(error)
+    .filter(key => !STANDARD_ERROR_KEYS.includes(key))
+    .map(key => {
+      const value = error[key];
+      const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+      return `${key}: ${text.length > 100 ? `${text.substring(0, 100)}…` : text}`;
+    })
+    .join(', ');
+}
+
+/**
+ * The message shown in alerts: the error's own message and fields, then its
+ * aggregated errors (numbered, indented) and every cause in the chain
+ */
+function describeError(error: SerializedError, indent: string = ''): string {
+  const fields = describeFields(error);
+  const lines = [fields ? `${error.message} (${fields})` : error.message];
+
+  const headline = (value: unknown, nestedIndent: string) => isSerializedError(value)
+    ? `${value.name}: ${describeError(value, nestedIndent)}`
+    : typeof value === 'string' ? value : JSON.stringify(value);
+
+  (error.errors || []).forEach((inner, index) => {
+    lines.push(`${indent}  ${index + 1}. ${headline(inner, `${indent}     `)}`);
+  });
+
+  if (error.cause !== undefined) {
+    lines.push(`${indent}Caused by: ${headline(error.cause, indent)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Plain-text report of an error for .txt and .html attachments
+ */
+function formatErrorText(error: SerializedError): string {
+  const sections = [`ERROR: ${error.name}: ${error.message}`, `STACK TRACE:\n${error.stack || 'No stack trace'}`];
+
+  const fields = Object.fromEntries(Object.entries(error).filter(([key]) => !STANDARD_ERROR_KEYS.includes(key)));
+  if (Object.keys(fields).length > 0) {
+    sections.push(`FIELDS:\n${JSON.stringify(fields, null, 2)}`);
+  }
+
+  (error.errors || []).forEach((inner, index) => {
+    sections.push(`--- ERROR ${index + 1} OF ${error.errors!.length} ---\n${isSerializedError(inner) ? formatErrorText(inner) : JSON.stringify(inner)}`);
+  });
+
+  if (error.cause !== undefined) {
+    sections.push(`--- CAUSED BY ---\n${isSerializedError(error.cause) ? formatErrorText(error.cause) : JSON.stringify(error.cause)}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+// ============================================
+// 9. FILE CREATOR WITH FORMAT CONVERSION
+// ============================================
+// How FileCreator reads and writes one format
+interface FormatHandler {
+  read?(data: any, context: FormatContext): any;
+  write(filePath: string, data: any, context: FormatContext): void | Promise<void>;
+  // Consumes async iterables row by row - other formats get them collected into an array
+  streams?: boolean;
+}
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+class FileCreator {
+  // Built-in formats - custom ones come from registerFileFormat
+  private formats: Record<BuiltInFileType, FormatHandler> = {
+    txt: {
+      read: data => this.parseTextData(data),
+      write: (filePath, data) => this.createTextFile(filePath, data)
+    },
+    json: {
+      read: data => this.parseJsonData(data),
+      write: (filePath, data) => this.createJsonFile(filePath, data)
+    },
+    csv: {
+      read: (data, context) => this.parseCsvData(data, context.headers, context.csv),
+      write: (filePath, data, context) => this.createCsvFile(filePath, data, context.headers, context.csv),
+      streams: true
+    },
+    tsv: {
+      read: (data, context) => this.parseCsvData(data, context.headers, this.tsvOptions(context)),
+      write: (filePath, data, context) => this.createCsvFile(filePath, data, context.headers, this.tsvOptions(context)),
+      streams: true
+    },
+    ndjson: {
+      read: async data => this.parseNdjsonData(await this.readText(data)),
+      write: (filePath, data) => this.createNdjsonFile(filePath, data),
+      streams: true
+    },
+    yaml: {
+      read: async data => this.parseYamlData(await this.readText(data)),
+      write: (filePath, data) => this.createYamlFile(filePath, data)
+    },
+    md: {
+      read: async (data, context) => this.parseMarkdownTable(await this.readText(data), context.headers),
+      write: (filePath, data, context) => this.createMarkdownFile(filePath, data, context.headers)
+    },
+    html: {
+      write: (filePath, data, context) => this.createHtmlFile(filePath, data, context.headers)
+    }
+  };
+
+  constructor(private config: ConfigStore) { }
+
+  /**
+   * Create file from data with optional format conversion
+   */
+  async createFileFromData(
+    data: any,
+    options: {
+      fileName?: string;
+      // Direct creation mode
+      fileType?: FileType;
+      // Conversion mode
+      from?: FileType;
+      to?: FileType;
+      csvHeaders?: string[];
+      csv?: CsvOptions;
+    } = {}
+  ): Promise<string> {
+    // Validate options
+    this.validateOptions(options);
+
+    // Determine output format
+    let outputFormat: FileType;
+    let shouldConvert = false;
+
+    if (options.from && options.to) {
+      // Conversion mode
+      outputFormat = options.to;
+      shouldConvert = true;
+    } else if (options.fileType) {
+      // Direct creation mode
+      outputFormat = options.fileType;
+      shouldConvert = false;
+    } else {
+      // Default mode
+      outputFormat = 'txt';
+      shouldConvert = false;
+    }
+
+    // Generate filename if not provided
+    let fileName = options.fileName;
+    if (!fileName) {
+      const timestamp = new Date().getTime();
+      const random = crypto.randomBytes(4).toString('hex');
+      fileName = `alert-${timestamp}-${random}.${outputFormat}`;
+    } else if (!fileName.includes('.')) {
+      // Add extension if missing
+      fileName = `${fileName}.${outputFormat}`;
+    }
+
+    const filePath = this.config.getSpool().resolve(fileName);
+
+    const context: FormatContext = { headers: options.csvHeaders, csv: options.csv || {} };
+
+    // Process data based on mode
+    if (shouldConvert && options.from && options.to) {
+      // CONVERSION MODE
+      await this.convertAndCreateFile(filePath, data, options.from, options.to, context);
+    } else {
+      // DIRECT CREATION MODE
+      await this.createFileDirectly(filePath, data, outputFormat, context);
+    }
+
+    this.config.getLog().debug('Created attachment', { file: fileName, format: outputFormat });
+    return filePath;
+  }
+
+  /**
+   * Validate that options are valid
+   */
+  private validateOptions(options: any): void {
+    const hasFileType = !!options.fileType;
+    const hasFrom = !!options.from;
+    const hasTo = !!options.to;
+
+    // Cannot use both modes
+    if (hasFileType && (hasFrom || hasTo)) {
+      throw new Error('Cannot use both fileType and from/to options together. Use either fileType for direct creation or from/to for conversion.');
+    }
+
+    // from and to must be used together
+    if ((hasFrom && !hasTo) || (!hasFrom && hasTo)) {
+      throw new Error('Both "from" and "to" options must be provided together for format conversion.');
+    }
+
+    // Validate format values
+    const validFormats = [...BUILT_IN_FILE_TYPES, ...customFormats.keys()];
+    if (options.fileType && !validFormats.includes(options.fileType)) {
+      throw new Error(`Invalid fileType: ${options.fileType}. Must be one of: ${validFormats.join(', ')}`);
+    }
+    if (options.from && !validFormats.includes(options.from)) {
+      throw new Error(`Invalid from format: ${options.from}. Must be one of: ${validFormats.join(', ')}`);
+    }
+    if (options.to && !validFormats.includes(options.to)) {
+      throw new Error(`Invalid to format: ${options.to}. Must be one of: ${validFormats.join(', ')}`);
+    }
+    if (options.from && !this.getFormat(options.from)?.read) {
+      throw new Error(`Cannot convert from ${options.from}: the format can only be written, not read.`);
+    }
+
+    // Cannot convert to same format
+    if (options.from && options.to && options.from === options.to) {
+      throw new Error(`Cannot convert from ${options.from} to ${options.to} (same format). Use fileType option instead.`);
+    }
+  }
+
+  /**
+   * Built-in or registered format by name
+   */
+  private getFormat(name: string): FormatHandler | undefined {
+    if (Object.prototype.hasOwnProperty.call(this.formats, name)) {
+      return this.formats[name as BuiltInFileType];
+    }
+
+    const custom = customFormats.get(name);
+    if (!custom) return undefined;
+
+    return {
+      read: custom.parse && (async (data, context) => custom.parse!(await this.readText(data), context)),
+      write: async (filePath, data, context) => {
+        this.config.getSpool().writeFile(filePath, await custom.serialize(data, context));
+      }
+    };
+  }
+
+  /**
+   * Convert data and create file
+   */
+  private async convertAndCreateFile(
+    filePath: string,
+    data: any,
+    from: FileType,
+    to: FileType,
+    context: FormatContext
+  ): Promise<void> {
+    // Read with the source format, then write with the target one. Raw text only had
+    // its values scrubbed, so the parsed rows still need the key denylist.
+    const parsed = await this.getFormat(from)!.read!(data, context);
+    const redactor = this.config.getRedactor();
+    await this.createFileDirectly(filePath, redactor ? redactor.redact(parsed) : parsed, to, context);
+  }
+
+  /**
+   * Direct file creation (no conversion)
+   */
+  private async createFileDirectly(
+    filePath: string,
+    data: any,
+    fileType: FileType,
+    context: FormatContext
+  ): Promise<void> {
+    const format = this.getFormat(fileType);
+    if (!format) {
+      throw new Error(`Unsupported file type: ${fileType}`);
+    }
+
+    const input = isAsyncIterable(data) && !format.streams ? await this.collect(data) : data;
+    await format.write(filePath, input, context);
+  }
+
+  private async collect(rows: AsyncIterable<any>): Promise<any[]> {
+    const collected: any[] = [];
+    for await (const row of rows) {
+      collected.push(row);
+    }
+    return collected;
+  }
+
+  /**
+   * Text content of a string, Buffer or stream of chunks
+   */
+  private async readText(input: any): Promise<string> {
+    if (typeof input === 'string') return input;
+    if (Buffer.isBuffer(input)) return input.toString('utf8');
+
+    if (isAsyncIterable(input)) {
+      const decoder = new StringDecoder('utf8');
+      let text = '';
+      for await (const chunk of input) {
+        text += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+      }
+      return text + decoder.end();
+    }
+
+    throw new Error('Data must be a string, Buffer or stream for conversion');
+  }
+
+  private tsvOptions(context: FormatContext): CsvOptions {
+    return { lineEnding: '\n', ...context.csv, delimiter: '\t' };
+  }
+
+  /**
+   * Parse JSON data (handle strings, objects, arrays)
+   */
+  private parseJsonData(data: any): any {
+    if (typeof data === 'string') {
+      try {
+        return JSON.parse(data);
+      } catch (error) {
+        throw new Error('Invalid JSON string provided for conversion');
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Parse CSV data (string, Buffer or a stream of chunks) to array of objects
+   */
+  private async parseCsvData(
+    csvData: string | Buffer | AsyncIterable<string | Buffer>,
+    headers?: string[],
+    csvOptions: CsvOptions = {}
+  ): Promise<any[]> {
+    const parser = new CsvParser(csvOptions);
+    let records: string[][];
+
+    if (typeof csvData === 'string') {
+      records = [...parser.write(csvData), ...parser.end()];
+    } else if (Buffer.isBuffer(csvData) || isAsyncIterable(csvData)) {
+      // Decode across chunk boundaries so multi-byte characters survive
+      const decoder = new StringDecoder('utf8');
+      records = [];
+      for await (const chunk of Buffer.isBuffer(csvData) ? [csvData] : csvData) {
+        records.push(...parser.write(typeof chunk === 'string' ? chunk : decoder.write(chunk)));
+      }
+      records.push(...parser.write(decoder.end()), ...parser.end());
+    } else {
+      throw new Error('CSV data must be a string, Buffer or stream for conversion');
+    }
+
+    if (records.length === 0) return [];
+
+    // Use provided headers, or auto-detect them from the first record
+    const columns = headers || records.shift()!;
+    const toValue = csvOptions.inferTypes
+      ? (value: string) => value === '' ? '' : inferCsvValue(value)
+      : (value: string) => value;
+
+    return records.map(values => {
+      const obj: any = {};
+      columns.forEach((header, index) => {
+        obj[header] = toValue(values[index] ?? '');
+      });
+      return obj;
+    });
+  }
+
+  /**
+ * Parse text data for conversion to CSV/JSON
+ */
+  private parseTextData(text: string): any {
     if (typeof text !== 'string') {
       return {
-        content: String(text),
-        timestamp: new Date().toISOString()
+        content: String(text),
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    // Clean the text
+    const cleanedText = text.trim();
+
+    // For CSV conversion: Return as array of objects with line content
+    const lines = cleanedText.split('\n');
+
+    // If it's a simple multi-line text, create array of objects
+    if (lines.length > 1) {
+      return lines.map((line, index) => ({
+        lineNumber: index + 1,
+        content: line.trim(),
+        characterCount: line.length
+      }));
+    }
+
+    // If it's a single line, return as is
+    return {
+      content: cleanedText,
+      timestamp: new Date().toISOString(),
+      length: cleanedText.length
+    };
+  }
+
+  /**
+   * Create text file (.txt)
+   */
+  private createTextFile(filePath: string, data: any): void {
+    let content: string;
+
+    if (typeof data === 'string') {
+      content = data;
+    } else if (data instanceof Error) {
+      content = formatErrorText(serializeError(data));
+    } else if (typeof data === 'object') {
+      content = JSON.stringify(data, errorReplacer, 2);
+    } else {
+      content = String(data);
+    }
+
+    this.config.getSpool().writeFile(filePath, content);
+  }
+
+  /**
+   * Create JSON file (.json)
+   */
+  private createJsonFile(filePath: string, data: any): void {
+    let jsonData: any;
+
+    if (typeof data === 'string') {
+      try {
+        // Try to parse if it's JSON string
+        jsonData = JSON.parse(data);
+      } catch {
+        // If not JSON, wrap in object
+        jsonData = { content: data, timestamp: new Date().toISOString() };
+      }
+    } else if (data instanceof Error) {
+      jsonData = { ...serializeError(data), timestamp: new Date().toISOString() };
+    } else {
+      jsonData = data;
+    }
+
+    // Add metadata
+    const finalData = {
+      ...jsonData,
+      _metadata: {
+        generatedAt: new Date().toISOString(),
+        source: 'error-notifier',
+        format: 'json',
+        ...this.config.getMetadata()
+      }
+    };
+
+    this.config.getSpool().writeFile(filePath, JSON.stringify(finalData, errorReplacer, 2));
+  }
+
+  /**
+   * Create CSV file (.csv) - rows are written as they are produced, so an
+   * async iterable (e.g. an object-mode stream) never has to fit in memory
+   */
+  private async createCsvFile(filePath: string, data: any, headers?: string[], csvOptions?: CsvOptions): Promise<void> {
+    const writer = new CsvWriter(this.config.getSpool().openSink(filePath), csvOptions);
+
+    try {
+      if (isAsyncIterable(data)) {
+        await this.writeCsvRows(writer, data, headers);
+      } else if (Array.isArray(data)) {
+        // Array of objects or arrays
+        if (data.length === 0) {
+          writer.writeRow(['No data']);
+        } else if (typeof data[0] === 'object' && !Array.isArray(data[0])) {
+          // Array of objects - FLATTEN nested objects
+          const allHeaders = headers || this.extractHeadersFromObjects(data);
+          writer.writeRow(allHeaders);
+          data.forEach((item: any) => {
+            writer.writeRow(allHeaders.map(header => this.getNestedValue(item, header)));
+          });
+        } else {
+          // Array of arrays or primitives
+          if (headers) {
+            writer.writeRow(headers);
+          }
+          data.forEach((row: any) => {
+            writer.writeRow(Array.isArray(row) ? row : [row]);
+          });
+        }
+      } else if (typeof data === 'object') {
+        // Single object - FLATTEN it
+        const allHeaders = headers || Object.keys(data);
+        writer.writeRow(allHeaders);
+        writer.writeRow(allHeaders.map(header => this.getNestedValue(data, header)));
+      } else {
+        // Single value
+        writer.writeRow(headers || ['Value']);
+        writer.writeRow([data]);
+      }
+    } finally {
+      writer.close();
+    }
+  }
+
+  /**
+   * Stream rows into the writer. Object rows use `headers`, or the keys of the first row.
+   */
+  private async writeCsvRows(writer: CsvWriter, rows: AsyncIterable<any>, headers?: string[]): Promise<void> {
+    let columns = headers;
+    let first = true;
+
+    for await (const row of rows) {
+      if (first) {
+        first = false;
+        if (!columns && row !== null && typeof row === 'object' && !Array.isArray(row)) {
+          columns = this.flattenObject(row);
+        }
+        if (columns) {
+          writer.writeRow(columns);
+        }
+      }
+
+      if (Array.isArray(row)) {
+        writer.writeRow(row);
+      } else if (row !== null && typeof row === 'object') {
+        writer.writeRow((columns || []).map(column => this.getNestedValue(row, column)));
+      } else {
+        writer.writeRow([row]);
+      }
+    }
+
+    if (first) {
+      writer.writeRow(headers || ['No data']);
+    }
+  }
+
+  /**
+   * Parse NDJSON - one JSON value per line, blank lines ignored
+   */
+  private parseNdjsonData(text: string): any[] {
+    const result: any[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        result.push(JSON.parse(line));
+      } catch {
+        throw new Error(`Invalid NDJSON on line ${index + 1}`);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Create NDJSON file (.ndjson) - one line per array item or streamed row
+   */
+  private async createNdjsonFile(filePath: string, data: any): Promise<void> {
+    const writer = new BufferedFileWriter(this.config.getSpool().openSink(filePath));
+    const toLine = (value: any) => JSON.stringify(value, errorReplacer) + '\n';
+
+    try {
+      if (typeof data === 'string') {
+        // Already NDJSON
+        writer.write(data.endsWith('\n') ? data : `${data}\n`);
+      } else if (isAsyncIterable(data)) {
+        for await (const item of data) {
+          writer.write(toLine(item));
+        }
+      } else if (Array.isArray(data)) {
+        data.forEach(item => writer.write(toLine(item)));
+      } else {
+        writer.write(toLine(data));
+      }
+    } finally {
+      writer.close();
+    }
+  }
+
+  private parseYamlData(text: string): any {
+    const yaml = requireYaml();
+    if (!yaml) {
+      throw new Error('Install the "yaml" package to convert from YAML');
+    }
+    return yaml.parse(text);
+  }
+
+  /**
+   * Create YAML file (.yaml)
+   */
+  private createYamlFile(filePath: string, data: any): void {
+    if (typeof data === 'string') {
+      this.config.getSpool().writeFile(filePath, data);
+      return;
+    }
+
+    const yaml = requireYaml();
+    if (!yaml) {
+      throw new Error('Install the "yaml" package to create YAML files');
+    }
+
+    this.config.getSpool().writeFile(filePath, yaml.stringify(data, errorReplacer));
+  }
+
+  /**
+   * Rows and columns for the table formats (Markdown, HTML), or null when
+   * the data isn't tabular
+   */
+  private tabulate(data: any, headers?: string[]): { columns: string[]; rows: any[][] } | null {
+    if (Array.isArray(data)) {
+      if (data.length === 0) return null;
+
+      if (typeof data[0] === 'object' && data[0] !== null && !Array.isArray(data[0])) {
+        // Array of objects - FLATTEN nested objects
+        const columns = headers || this.extractHeadersFromObjects(data);
+        return { columns, rows: data.map(item => columns.map(column => this.getNestedValue(item, column))) };
+      }
+
+      const rows = data.map(row => Array.isArray(row) ? row : [row]);
+      if (headers) return { columns: headers, rows };
+      // Arrays of arrays carry their header in the first row
+      return Array.isArray(data[0])
+        ? { columns: rows[0].map(cellText), rows: rows.slice(1) }
+        : { columns: ['Value'], rows };
+    }
+
+    if (data !== null && typeof data === 'object' && !(data instanceof Error) && !(data instanceof Date)) {
+      // Single object - one row per (flattened) key
+      return {
+        columns: headers || ['Key', 'Value'],
+        rows: this.flattenObject(data).map(key => [key, this.getNestedValue(data, key)])
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Create Markdown file (.md) - data becomes a table ready to paste into a ticket
+   */
+  private createMarkdownFile(filePath: string, data: any, headers?: string[]): void {
+    const table = this.tabulate(data, headers);
+    if (!table) {
+      this.createTextFile(filePath, data);
+      return;
+    }
+
+    const escape = (value: any) => cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    const lines = [
+      `| ${table.columns.map(escape).join(' | ')} |`,
+      `| ${table.columns.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row => `| ${row.map(escape).join(' | ')} |`)
+    ];
+
+    this.config.getSpool().writeFile(filePath, lines.join('\n') + '\n');
+  }
+
+  /**
+   * Parse the first Markdown table in the text to array of objects
+   */
+  private parseMarkdownTable(text: string, headers?: string[]): any[] {
+    const rows = text.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.startsWith('|'))
+      .map(line => line.substring(1, line.endsWith('|') ? line.length - 1 : line.length)
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|').replace(/<br\s*\/?>/g, '\n')))
+      // Skip the | --- | :---: | separator row
+      .filter(cells => !cells.every(cell => /^:?-+:?$/.test(cell)));
+
+    if (rows.length === 0) return [];
+
+    const columns = headers || rows.shift()!;
+    return rows.map(cells => {
+      const obj: any = {};
+      columns.forEach((column, index) => {
+        obj[column] = cells[index] ?? '';
+      });
+      return obj;
+    });
+  }
+
+  /**
+   * Create HTML file (.html) - a standalone report with a table, or the data pre-formatted
+   */
+  private createHtmlFile(filePath: string, data: any, headers?: string[]): void {
+    const escape = (value: any) => cellText(value).replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+    const table = this.tabulate(data, headers);
+    let body: string;
+
+    if (table) {
+      const head = table.columns.map(column => `<th>${escape(column)}</th>`).join('');
+      const rows = table.rows.map(row => `<tr>${row.map(cell => `<td>${escape(cell)}</td>`).join('')}</tr>`);
+      body = `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    } else if (data instanceof Error) {
+      body = `<pre>${escape(formatErrorText(serializeError(data)))}</pre>`;
+    } else {
+      body = `<pre>${escape(typeof data === 'string' ? data : JSON.stringify(data, errorReplacer, 2))}</pre>`;
+    }
+
+    this.config.getSpool().writeFile(filePath, [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escape(path.basename(filePath))}</title>`,
+      '<style>body{font-family:sans-serif}table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top;white-space:pre-wrap}th{background:#f4f4f4}</style>',
+      '</head>',
+      '<body>',
+      body,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n'));
+  }
+
+  /**
+  * Extract all headers from array of objects (including nested paths)
+  */
+  private extractHeadersFromObjects(objects: any[]): string[] {
+    const headers = new Set<string>();
+
+    objects.forEach(obj => {
+      this.flattenObject(obj).forEach(key => {
+        headers.add(key);
+      });
+    });
+
+    return Array.from(headers);
+  }
+
+  /**
+   * Flatten nested object to dot notation
+   */
+  private flattenObject(obj: any, prefix: string = ''): string[] {
+    const keys: string[] = [];
+
+    for (const key in obj) {
+      if (obj.hasOwnProperty(key)) {
+        const fullKey = prefix ? `${prefix}.${key}` : key;
+
+        if (typeof obj[key] === 'object' && obj[key] !== null && !Array.isArray(obj[key]) && !(obj[key] instanceof Date) && !(obj[key] instanceof Error)) {
+          // Recursively flatten nested object
+          keys.push(...this.flattenObject(obj[key], fullKey));
+        } else {
+          keys.push(fullKey);
+        }
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Get value from nested object using dot notation
+   */
+  private getNestedValue(obj: any, path: string): any {
+    const keys = path.split('.');
+    let current = obj;
+
+    for (const key of keys) {
+      if (current === null || current === undefined || typeof current !== 'object') {
+        return undefined;
+      }
+      current = current[key];
+    }
+
+    return current;
+  }
+
+  /**
+   * Write previously captured file content back into storage
+   */
+  restoreFile(fileName: string, content: Buffer): string {
+    const spool = this.config.getSpool();
+    const filePath = spool.resolve(fileName);
+    spool.writeFile(filePath, content);
+    return filePath;
+  }
+
+  /**
+   * The attachment as transports see it - in-memory files carry their content
+   */
+  describeFile(filePath: string, formatInfo: string): AttachedFile {
+    const spool = this.config.getSpool();
+    return {
+      path: filePath,
+      name: path.basename(filePath),
+      sizeKB: (spool.size(filePath) / 1024).toFixed(2),
+      formatInfo,
+      content: spool.inMemory ? spool.readFile(filePath) : undefined
+    };
+  }
+
+  /**
+   * Delete file after sending
+   */
+  async deleteFile(filePath: string): Promise<void> {
+    const spool = this.config.getSpool();
+
+    // In-memory files are always dropped - keeping them would only leak memory
+    if (!this.config.shouldAutoDeleteFiles() && !spool.inMemory) {
+      this.config.getLog().debug('Kept attachment, autoDeleteFiles is off', { path: filePath });
+      return;
+    }
+
+    try {
+      await spool.remove(filePath);
+      this.config.getLog().debug('Deleted attachment', { file: path.basename(filePath) });
+    } catch (error) {
+      this.config.getLog().error('Could not delete attachment', { path: filePath, error: messageOf(error) });
+    }
+  }
+
+  /**
+   * Delete temp files older than `maxAgeHours`, returning how many went.
+   * Directories (the outbox, other alerters' temp dirs) are left alone.
+   */
+  async cleanupOldFiles(maxAgeHours: number = 24): Promise<number> {
+    const tempDir = this.config.getTempDir();
+    if (!tempDir || !fs.existsSync(tempDir)) return 0;
+
+    const entries = fs.readdirSync(tempDir, { withFileTypes: true });
+    const now = Date.now();
+    const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+
+      const filePath = path.join(tempDir, entry.name);
+      try {
+        const stats = fs.statSync(filePath);
+        if (now - stats.mtimeMs > maxAgeMs) {
+          await fs.promises.unlink(filePath);
+          removed++;
+          this.config.getLog().debug('Cleaned up old temp file', { file: entry.name });
+        }
+      } catch (error) {
+        // Ignore errors for cleanup
+      }
+    }
+
+    return removed;
+  }
+}
+
+// ============================================
+// 10. ATTACHMENT LIMITS (truncate, split, compress)
+// ============================================
+interface AttachmentOptions {
+  // Compress files larger than this many bytes (default: 1 MB), false to never compress
+  compressAboveBytes?: number | false;
+  // 'gzip' (.gz) or 'zip' (.zip) (default: 'gzip')
+  compression?: 'gzip' | 'zip';
+  // Split CSV, TSV and NDJSON files larger than this into numbered parts (default: 25 MB), false to never split
+  splitAboveBytes?: number | false;
+  // Hard cap on the uncompressed attachment, the rest is cut off with a marker (default: 100 MB)
+  maxBytes?: number;
+}
+
+type ResolvedAttachmentOptions = Required<AttachmentOptions>;
+
+interface PreparedAttachment {
+  files: { path: string; name: string; bytes: number }[];
+  // Size of the file before it was truncated, split or compressed
+  originalBytes: number;
+  compression?: 'gzip' | 'zip';
+  // What the hard cap cut off - rows for row formats, bytes for everything else
+  omittedRows?: number;
+  omittedBytes?: number;
+}
+
+// Formats that can be cut and split between records
+const ROW_FORMATS: FileType[] = ['csv', 'tsv', 'ndjson'];
+
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * Stream a file record by record (line endings included). With a quote
+ * character, line breaks inside quoted fields don't end the record.
+ */
+async function* readRecords(source: Readable, quote: string | null): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let record = '';
+  let inQuotes = false;
+
+  for await (const data of source) {
+    const chunk = decoder.write(data);
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (char === quote) {
+        // "" inside a quoted field flips twice, so escapes need no special case
+        inQuotes = !inQuotes;
+      } else if (char === '\n' && !inQuotes) {
+        yield record + chunk.substring(start, i + 1);
+        record = '';
+        start = i + 1;
+      }
+    }
+    record += chunk.substring(start);
+  }
+
+  record += decoder.end();
+  if (record) yield record;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = -1;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+/**
+ * Single-entry .zip archive (deflate) - no dependency needed for one file
+ */
+function createZip(fileName: string, content: Buffer, modified: Date = new Date()): Buffer {
+  const name = Buffer.from(fileName, 'utf8');
+  const compressed = zlib.deflateRawSync(content);
+  const crc = crc32(content);
+  const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+  const dosDate = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const UTF8_NAMES = 0x0800;
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(UTF8_NAMES, 6);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt16LE(dosTime, 10);
+  local.writeUInt16LE(dosDate, 12);
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(name.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(UTF8_NAMES, 8);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt16LE(dosTime, 12);
+  central.writeUInt16LE(dosDate, 14);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(name.length, 28);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + name.length, 12);
+  end.writeUInt32LE(local.length + name.length + compressed.length, 16);
+
+  return Buffer.concat([local, name, compressed, central, name, end]);
+}
+
+class AttachmentProcessor {
+  constructor(private config: ConfigStore) { }
+
+  /**
+   * Apply the hard cap, split and compress as configured. The returned files
+   * replace `filePath` (which is removed if it was rewritten).
+   */
+  async prepare(filePath: string, format: FileType, quote: string = '"'): Promise<PreparedAttachment> {
+    const spool = this.config.getSpool();
+    const originalBytes = spool.size(filePath);
+    const options = this.config.getAttachmentOptions();
+    let paths = [filePath];
+    let omittedRows: number | undefined;
+    let omittedBytes: number | undefined;
+
+    if (options) {
+      const isRowFormat = ROW_FORMATS.includes(format);
+      const needsCap = originalBytes > options.maxBytes;
+      const needsSplit = isRowFormat && options.splitAboveBytes !== false && originalBytes > options.splitAboveBytes;
+
+      if (isRowFormat && (needsCap || needsSplit)) {
+        const result = await this.splitRecords(filePath, format, quote, options);
+        paths = result.paths;
+        omittedRows = result.omittedRows || undefined;
+      } else if (needsCap) {
+        omittedBytes = await this.truncateBytes(filePath, options.maxBytes, originalBytes);
+      }
+
+      if (options.compressAboveBytes !== false) {
+        const threshold = options.compressAboveBytes;
+        paths = await Promise.all(paths.map(partPath => spool.size(partPath) > threshold
+          ? this.compress(partPath, options.compression)
+          : partPath));
+      }
+    }
+
+    const compressed = paths.some(partPath => /\.(gz|zip)$/.test(partPath));
+    return {
+      files: paths.map(partPath => ({ path: partPath, name: path.basename(partPath), bytes: spool.size(partPath) })),
+      originalBytes,
+      compression: compressed ? options!.compression : undefined,
+      omittedRows,
+      omittedBytes
+    };
+  }
+
+  /**
+   * Rewrite a row-format file as numbered parts below `splitAboveBytes`,
+   * dropping rows past `maxBytes`. CSV/TSV parts each repeat the header row.
+   */
+  private async splitRecords(
+    filePath: string,
+    format: FileType,
+    quote: string,
+    options: ResolvedAttachmentOptions
+  ): Promise<{ paths: string[]; omittedRows: number }> {
+    const spool = this.config.getSpool();
+    const extension = path.extname(filePath);
+    const base = filePath.substring(0, filePath.length - extension.length);
+    const partLimit = options.splitAboveBytes === false ? Infinity : options.splitAboveBytes;
+    const hasHeader = format !== 'ndjson';
+
+    const paths: string[] = [];
+    let header: string | null = null;
+    let writer: BufferedFileWriter | null = null;
+    let partBytes = 0;
+    let partRows = 0;
+    let totalBytes = 0;
+    let omittedRows = 0;
+
+    const startPart = () => {
+      writer?.close();
+      const partPath = `${base}.part${paths.length + 1}${extension}`;
+      paths.push(partPath);
+      writer = new BufferedFileWriter(spool.openSink(partPath));
+      partBytes = 0;
+      partRows = 0;
+      if (header) {
+        writer.write(header);
+        partBytes = Buffer.byteLength(header);
+      }
+    };
+
+    try {
+      for await (const record of readRecords(spool.createReadStream(filePath), format === 'ndjson' ? null : quote)) {
+        const bytes = Buffer.byteLength(record);
+
+        if (hasHeader && header === null) {
+          header = record;
+          totalBytes += bytes;
+          continue;
+        }
+
+        if (totalBytes + bytes > options.maxBytes) {
+          omittedRows++;
+          continue;
+        }
+
+        if (!writer || (partRows > 0 && partBytes + bytes > partLimit)) {
+          startPart();
+        }
+        writer!.write(record);
+        partBytes += bytes;
+        partRows++;
+        totalBytes += bytes;
+      }
+
+      if (!writer) startPart();
+
+      if (omittedRows > 0) {
+        const lineEnding = header?.endsWith('\r\n') ? '\r\n' : '\n';
+        const marker = `[truncated, ${omittedRows} rows omitted]`;
+        writer!.write(format === 'ndjson'
+          ? `${JSON.stringify({ _truncated: marker })}\n`
+          : `${quote}${marker}${quote}${lineEnding}`);
+      }
+    } finally {
+      (writer as BufferedFileWriter | null)?.close();
+    }
+
+    await spool.remove(filePath);
+
+    // Nothing was split - keep the original name
+    if (paths.length === 1) {
+      spool.rename(paths[0], filePath);
+      return { paths: [filePath], omittedRows };
+    }
+    return { paths, omittedRows };
+  }
+
+  /**
+   * Keep the first `maxBytes` of any other format, followed by a marker
+   */
+  private async truncateBytes(filePath: string, maxBytes: number, size: number): Promise<number> {
+    const spool = this.config.getSpool();
+    const omittedBytes = size - maxBytes;
+    const truncatedPath = `${filePath}.truncated`;
+
+    await pipelineAsync(spool.createReadStream(filePath, maxBytes - 1), spool.createWriteStream(truncatedPath));
+    spool.appendFile(truncatedPath, `\n\n[truncated, ${omittedBytes} bytes omitted]\n`);
+    spool.rename(truncatedPath, filePath);
+
+    return omittedBytes;
+  }
+
+  private async compress(filePath: string, compression: 'gzip' | 'zip'): Promise<string> {
+    const spool = this.config.getSpool();
+    let compressedPath: string;
+
+    if (compression === 'zip') {
+      compressedPath = `${filePath}.zip`;
+      spool.writeFile(compressedPath, createZip(path.basename(filePath), spool.readFile(filePath)));
+    } else {
+      compressedPath = `${filePath}.gz`;
+      await pipelineAsync(spool.createReadStream(filePath), zlib.createGzip(), spool.createWriteStream(compressedPath));
+    }
+
+    await spool.remove(filePath);
+    return compressedPath;
+  }
+}
+
+// ============================================
+// 11. REDACTION (scrub sensitive data before it leaves the process)
+// ============================================
+type BuiltInDetector = 'jwt' | 'slackToken' | 'creditCard' | 'email';
+
+interface RedactOptions {
+  // Values under these keys are replaced entirely. Strings match whole words of the
+  // key, case-insensitively: `token` matches accessToken and x_token, not tokenCount.
+  // Added to the built-in list of password/token/secret keys.
+  keys?: (string | RegExp)[];
+  // Extra patterns replaced wherever they appear in a string
+  patterns?: RegExp[];
+  // Built-in detectors to run (default: all)
+  detectors?: BuiltInDetector[];
+  // Custom scrubbers, called for every string with its dot-notation path
+  custom?: ((value: string, path: string) => string)[];
+  // Replacement text (default: [REDACTED])
+  replacement?: string;
+}
+
+const DEFAULT_REDACTED_KEYS = [
+  'password', 'passwd', 'secret', 'token', 'apikey', 'authorization', 'cookie',
+  'creditcard', 'cardnumber', 'cvv', 'ssn', 'privatekey'
+];
+
+// Words that may follow a sensitive key and keep it sensitive: secretKey, passwordHash
+const SENSITIVE_KEY_SUFFIXES = ['key', 'value', 'hash', 'header', 'confirmation'];
+
+const DETECTOR_PATTERNS: Record<BuiltInDetector, RegExp> = {
+  jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  slackToken: /\bxox[abposr]-[A-Za-z0-9-]+|https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+};
+
+/**
+ * Luhn checksum - keeps order ids and timestamps from being mistaken for cards
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+class Redactor {
+  private replacement: string;
+  private keyMatchers: (string | RegExp)[];
+  private detectors: BuiltInDetector[];
+
+  constructor(private options: RedactOptions = {}) {
+    this.replacement = options.replacement ?? '[REDACTED]';
+    this.keyMatchers = [
+      ...DEFAULT_REDACTED_KEYS,
+      ...(options.keys || []).map(key => typeof key === 'string' ? this.normalizeKey(key) : key)
+    ];
+    this.detectors = options.detectors ?? (Object.keys(DETECTOR_PATTERNS) as BuiltInDetector[]);
+  }
+
+  /**
+   * Scrub a single string
+   */
+  redactString(value: string, path: string = ''): string {
+    let result = value;
+
+    for (const detector of this.detectors) {
+      result = result.replace(DETECTOR_PATTERNS[detector], match =>
+        detector === 'creditCard' && !passesLuhn(match) ? match : this.replacement);
+    }
+
+    for (const pattern of this.options.patterns || []) {
+      // Always replace every occurrence, whatever flags the caller used
+      const global = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+      result = result.replace(global, this.replacement);
+    }
+
+    for (const scrub of this.options.custom || []) {
+      result = scrub(result, path);
+    }
+
+    return result;
+  }
+
+  /**
+   * Deep-copy any value with sensitive keys and strings scrubbed.
+   * Paths use the same dot notation as FileCreator.flattenObject.
+   */
+  redact<T>(value: T, path: string = '', seen = new WeakMap<object, any>()): T {
+    if (typeof value === 'string') {
+      return this.redactString(value, path) as any;
+    }
+
+    if (value === null || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    // Streamed rows are scrubbed one by one as they are consumed
+    if (isAsyncIterable(value)) {
+      const source = value;
+      return (async function* (redactor: Redactor) {
+        for await (const item of source) {
+          yield redactor.redact(item, path);
+        }
+      })(this) as any;
+    }
+
+    // Cycles come back as the already-redacted copy
+    if (seen.has(value as any)) {
+      return seen.get(value as any);
+    }
+
+    if (value instanceof Error) {
+      // Same prototype, so the copy is still `instanceof` its class
+      const copy: Error = Object.create(Object.getPrototypeOf(value));
+      const own = (key: string, fieldValue: unknown) =>
+        Object.defineProperty(copy, key, { value: fieldValue, writable: true, configurable: true, enumerable: false });
+      own('message', this.redactString(value.message, path ? `${path}.message` : 'message'));
+      own('stack', value.stack ? this.redactString(value.stack, path ? `${path}.stack` : 'stack') : undefined);
+      if (Object.prototype.hasOwnProperty.call(value, 'name')) own('name', value.name);
+      seen.set(value, copy);
+
+      // Custom fields, the cause and aggregated errors follow the same rules as object keys
+      const links = ['cause', 'errors'].filter(key => Object.prototype.hasOwnProperty.call(value, key));
+      for (const key of [...Object.keys(errorFields(value)), ...links]) {
+        (copy as any)[key] = this.isSensitiveKey(key)
+          ? this.replacement
+          : this.redact((value as any)[key], path ? `${path}.${key}` : key, seen);
+      }
+      return copy as any;
+    }
+
+    if (Array.isArray(value)) {
+      const copy: any[] = [];
+      seen.set(value, copy);
+      value.forEach((item, index) => {
+        copy.push(this.redact(item, path ? `${path}.${index}` : String(index), seen));
+      });
+      return copy as any;
+    }
+
+    const copy: Record<string, any> = {};
+    seen.set(value as any, copy);
+
+    for (const key of Object.keys(value as any)) {
+      const childPath = path ? `${path}.${key}` : key;
+      copy[key] = this.isSensitiveKey(key)
+        ? this.replacement
+        : this.redact((value as any)[key], childPath, seen);
+    }
+
+    return copy as any;
+  }
+
+  private normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, '');
+  }
+
+  /**
+   * Lower-case words of a key: `x-API-Key` and `xApiKey` are both x, api, key
+   */
+  private keyWords(key: string): string[] {
+    return key
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * A run of whole words spells the term (or its plural), and only
+   * SENSITIVE_KEY_SUFFIXES come after it
+   */
+  private matchesWords(words: string[], term: string): boolean {
+    for (let start = 0; start < words.length; start++) {
+      let joined = '';
+      for (let end = start; end < words.length && joined.length <= term.length; end++) {
+        joined += words[end];
+        if ((joined === term || joined === `${term}s`) &&
+          words.slice(end + 1).every(word => SENSITIVE_KEY_SUFFIXES.includes(word))) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private isSensitiveKey(key: string): boolean {
+    const words = this.keyWords(key);
+    return this.keyMatchers.some(matcher => {
+      if (typeof matcher === 'string') return this.matchesWords(words, matcher);
+      // A `g` or `y` pattern would otherwise resume from the last match
+      matcher.lastIndex = 0;
+      return matcher.test(key);
+    });
+  }
+}
+
+// ============================================
+// 12. ALERT METADATA (environment, release, host)
+// ============================================
+interface AlertMetadata {
+  environment?: string;
+  release?: string;
+  serviceName?: string;
+  serverName?: string;
+}
+
+// Checked in order for the release - set by most CI systems and PaaS builds
+const RELEASE_ENV_VARS = ['RELEASE', 'APP_VERSION', 'SOURCE_VERSION', 'GIT_COMMIT', 'COMMIT_SHA'];
+
+/**
+ * Name and version from the app's package.json, if there is one
+ */
+function readPackageInfo(directory: string = process.cwd()): { name?: string; version?: string } {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf8'));
+    return {
+      name: typeof pkg.name === 'string' ? pkg.name : undefined,
+      version: typeof pkg.version === 'string' ? pkg.version : undefined
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Explicit values first, then environment variables, package.json and the hostname
+ */
+function detectMetadata(explicit: AlertMetadata = {}): AlertMetadata {
+  const env = process.env;
+  const pkg = readPackageInfo();
+
+  return {
+    environment: explicit.environment || env.APP_ENV || env.NODE_ENV,
+    release: explicit.release || RELEASE_ENV_VARS.map(name => env[name]).find(Boolean) || env.npm_package_version || pkg.version,
+    serviceName: explicit.serviceName || env.SERVICE_NAME || env.npm_package_name || pkg.name,
+    serverName: explicit.serverName || os.hostname()
+  };
+}
+
+/**
+ * `*Service:* api · *Release:* 1.4.2 · *Env:* production · *Host:* pod-7f9c` for the context block
+ */
+function describeMetadata(metadata: AlertMetadata): string {
+  return [
+    metadata.serviceName && `*Service:* ${metadata.serviceName}`,
+    metadata.release && `*Release:* ${metadata.release}`,
+    metadata.environment && `*Env:* ${metadata.environment}`,
+    metadata.serverName && `*Host:* ${metadata.serverName}`
+  ].filter(Boolean).join(' · ');
+}
+
+// ============================================
+// 13. ROUTING (channels and mentions per alert)
+// ============================================
+interface RouteMatch {
+  severity?: Severity | Severity[];
+  // Every listed tag must be set on the alert's scope with this value
+  tags?: Record<string, string>;
+  // Error class name, e.g. 'PaymentError'
+  errorClass?: string | string[];
+  // Tested against the (redacted) message, strings are compiled as regular expressions
+  message?: RegExp | string;
+  // AlertOptions.service, the scope's `service` tag, or the configured serviceName
+  service?: string | string[];
+  // Configured (or detected) environment, release and server name
+  environment?: string | string[];
+  release?: string | string[];
+  serverName?: string | string[];
+}
+
+interface RouteRule {
+  // Omit to match every alert
+  match?: RouteMatch;
+  // Where to post instead of the default channel
+  channels?: { channelName: string; channelId: string }[];
+  // '@here', '@channel', user ids (U123), user group ids (S123) or raw Slack syntax
+  mentions?: string[];
+  // Keep evaluating later rules after this one matches (default: first match wins)
+  continue?: boolean;
+}
+
+interface RouteTarget {
+  channelName: string;
+  channelId: string;
+  mentions: string[];
+}
+
+// What rules match on - known before the alert is built
+type RouteSubject = Pick<AlertPayload, 'severity' | 'message' | 'errorClass' | 'scope' | 'options' | 'metadata'>;
+
+function channelNames(targets: RouteTarget[]): string[] {
+  return targets.map(target => target.channelName);
+}
+
+/**
+ * '@here' -> '<!here>', 'U123' -> '<@U123>', 'S123' -> '<!subteam^S123>'
+ */
+function formatMention(mention: string): string {
+  if (mention.startsWith('<')) return mention;
+  if (['@here', '@channel', '@everyone'].includes(mention)) return `<!${mention.substring(1)}>`;
+  if (/^S[A-Z0-9]+$/.test(mention)) return `<!subteam^${mention}>`;
+  if (/^[UW][A-Z0-9]+$/.test(mention)) return `<@${mention}>`;
+  return mention;
+}
+
+function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+class Router {
+  constructor(private rules: RouteRule[]) { }
+
+  /**
+   * Channels (with their mentions) an alert should be posted to.
+   * Falls back to `fallback` when no rule names a channel.
+   */
+  resolve(payload: RouteSubject, fallback: { channelName: string; channelId: string }): RouteTarget[] {
+    const targets = new Map<string, RouteTarget>();
+    const fallbackMentions: string[] = [];
+
+    for (const rule of this.rules) {
+      if (!this.matches(rule.match || {}, payload)) continue;
+
+      const mentions = (rule.mentions || []).map(formatMention);
+      if (rule.channels?.length) {
+        rule.channels.forEach(channel => {
+          const target = targets.get(channel.channelId) || { ...channel, mentions: [] };
+          target.mentions.push(...mentions.filter(mention => !target.mentions.includes(mention)));
+          targets.set(channel.channelId, target);
+        });
+      } else {
+        fallbackMentions.push(...mentions.filter(mention => !fallbackMentions.includes(mention)));
+      }
+
+      if (!rule.continue) break;
+    }
+
+    if (targets.size === 0) {
+      return [{ ...fallback, mentions: fallbackMentions }];
+    }
+    return [...targets.values()];
+  }
+
+  private matches(match: RouteMatch, payload: RouteSubject): boolean {
+    const tags = payload.scope?.tags || {};
+
+    const severities = toList(match.severity);
+    if (severities && !severities.includes(payload.severity)) return false;
+
+    if (match.tags && !Object.entries(match.tags).every(([key, value]) => tags[key] === value)) {
+      return false;
+    }
+
+    const errorClasses = toList(match.errorClass);
+    if (errorClasses && !errorClasses.includes(payload.errorClass || '')) return false;
+
+    if (match.message !== undefined) {
+      const pattern = typeof match.message === 'string' ? new RegExp(match.message) : match.message;
+      // A global regex keeps lastIndex between calls
+      pattern.lastIndex = 0;
+      if (!pattern.test(payload.message)) return false;
+    }
+
+    const metadata = payload.metadata || {};
+    const services = toList(match.service);
+    if (services && !services.includes(payload.options.service || tags.service || metadata.serviceName || '')) return false;
+
+    const checks: [string | string[] | undefined, string | undefined][] = [
+      [match.environment, metadata.environment],
+      [match.release, metadata.release],
+      [match.serverName, metadata.serverName]
+    ];
+    if (checks.some(([expected, actual]) => expected !== undefined && !toList(expected)!.includes(actual || ''))) {
+      return false;
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Explicit channel options win, otherwise the routing table decides
+ */
+function resolveRouteTargets(config: ConfigStore, subject: RouteSubject): RouteTarget[] {
+  const { options } = subject;
+  const fallback = {
+    channelName: options.channelName || config.getDefaultChannelName(),
+    channelId: options.channelId || config.getDefaultChannelId()
+  };
+
+  const router = config.getRouter();
+  if (!router || options.channelName || options.channelId) {
+    return [{ ...fallback, mentions: [] }];
+  }
+  return router.resolve(subject, fallback);
+}
+
+// ============================================
+// 14. THREADING (follow-ups as replies to the first alert)
+// ============================================
+interface ThreadingOptions {
+  // Thread repeats of the same fingerprint (default: true)
+  byFingerprint?: boolean;
+  // Thread alerts whose scope has the same `correlationId` tag (default: true)
+  byCorrelationId?: boolean;
+  // How long a thread accepts replies after its last alert (default: 24h)
+  windowMs?: number;
+  // Threads remembered at once, least recently used forgotten first (default: 1000)
+  maxThreads?: number;
+}
+
+interface ThreadParent {
+  // Channel ID and ts of the first message, as returned by chat.postMessage
+  channel: string;
+  ts: string;
+  replies: number;
+  lastAt: Date;
+  // What the parent currently shows, so its counter can be redrawn
+  message?: { text?: string; blocks: any[]; attachments?: any[] };
+}
+
+const THREAD_BLOCK_ID = 'alert_thread';
+
+const THREADING_DEFAULTS: Required<ThreadingOptions> = {
+  byFingerprint: true,
+  byCorrelationId: true,
+  windowMs: 24 * 60 * 60 * 1000,
+  maxThreads: 1000
+};
+
+/**
+ * Which thread an alert belongs to - explicit keys always thread,
+ * fingerprints and scope correlation ids only with `threading` on
+ */
+function threadKeyOf(payload: AlertPayload, options: Required<ThreadingOptions> | null): string | undefined {
+  if (payload.options.threadKey) return `key:${payload.options.threadKey}`;
+  if (payload.options.correlationId) return `correlation:${payload.options.correlationId}`;
+  if (!options) return undefined;
+
+  const correlationId = payload.scope?.tags.correlationId;
+  if (options.byCorrelationId && correlationId) return `correlation:${correlationId}`;
+  if (options.byFingerprint && payload.fingerprint) return `fingerprint:${payload.fingerprint}`;
+  return undefined;
+}
+
+/**
+ * Swap the "N follow-ups" line into a parent's blocks, above its status and buttons
+ */
+function withThreadBlock(blocks: any[], parent: ThreadParent): any[] {
+  const rest = blocks.filter(block => block.block_id !== THREAD_BLOCK_ID);
+  if (parent.replies === 0) return rest;
+
+  const latest = parent.lastAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const block = {
+    type: 'context',
+    block_id: THREAD_BLOCK_ID,
+    elements: [{ type: 'mrkdwn', text: `🧵 *${parent.replies} follow-up${parent.replies === 1 ? '' : 's'}* in thread, latest at ${latest}` }]
+  };
+
+  const at = rest.findIndex(candidate => candidate.block_id === STATUS_BLOCK_ID || candidate.block_id === ACTIONS_BLOCK_ID);
+  return at === -1 ? [...rest, block] : [...rest.slice(0, at), block, ...rest.slice(at)];
+}
+
+/**
+ * Parent message per (channel, thread key). A parent still being posted is
+ * awaited, so a burst of alerts ends up in one thread.
+ */
+class ThreadTracker {
+  private threads = new Map<string, Promise<ThreadParent | null>>();
+  private parents = new Map<string, ThreadParent>();
+
+  constructor(private options: () => Required<ThreadingOptions>) { }
+
+  /**
+   * The live parent for this key - or, when there is none, a callback
+   * the caller must settle with the parent it posts (null if it failed)
+   */
+  async join(channel: string, key: string): Promise<{ parent: ThreadParent } | { open: (parent: ThreadParent | null) => void }> {
+    const id = `${channel}\n${key}`;
+    const pending = this.threads.get(id);
+
+    if (pending) {
+      const parent = await pending;
+      if (parent && Date.now() - parent.lastAt.getTime() <= this.options().windowMs) {
+        // Most recently used last, for eviction
+        this.threads.delete(id);
+        this.threads.set(id, pending);
+        return { parent };
+      }
+      // Someone else noticed first and is posting a new parent
+      if (this.threads.get(id) !== pending && this.threads.has(id)) {
+        return this.join(channel, key);
+      }
+    }
+
+    let settle!: (parent: ThreadParent | null) => void;
+    const opening = new Promise<ThreadParent | null>(resolve => { settle = resolve; });
+    pending?.then(previous => previous && this.parents.delete(previous.ts));
+    this.threads.delete(id);
+    this.threads.set(id, opening);
+    this.evict();
+
+    return {
+      open: parent => {
+        if (parent) {
+          this.parents.set(parent.ts, parent);
+        } else if (this.threads.get(id) === opening) {
+          this.threads.delete(id);
+        }
+        settle(parent);
+      }
+    };
+  }
+
+  /**
+   * Parent posted at `ts`, if it is one we are tracking
+   */
+  byTs(ts: string): ThreadParent | undefined {
+    return this.parents.get(ts);
+  }
+
+  clear(): void {
+    this.threads.clear();
+    this.parents.clear();
+  }
+
+  private evict(): void {
+    const { maxThreads } = this.options();
+    for (const [id, pending] of this.threads) {
+      if (this.threads.size <= maxThreads) break;
+      this.threads.delete(id);
+      pending.then(parent => parent && this.parents.delete(parent.ts));
+    }
+  }
+}
+
+// ============================================
+// 15. TRANSPORTS
+// ============================================
+type Severity = 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * Everything a transport needs to deliver a single alert
+ */
+interface AlertPayload {
+  severity: Severity;
+  message: string;
+  stack: string;
+  emoji: string;
+  color: string;
+  timestamp: Date;
+  // Slack Block Kit blocks (reused by transports that understand them)
+  blocks: any[];
+  options: AlertOptions;
+  // Constructor name of the original error, if it was one
+  errorClass?: string;
+  // User, tags, contexts and breadcrumbs at the time the alert was raised
+  scope?: ScopeSnapshot;
+  // The attachment - the first part if it was split
+  file?: AttachedFile;
+  // Every part of the attachment, in order
+  files?: AttachedFile[];
+  // Identifies repeats of this alert (deduplication, snooze)
+  fingerprint?: string;
+  // Environment, release, service and server the alert came from
+  metadata?: AlertMetadata;
+}
+
+interface AttachedFile {
+  // Location on disk - only a name when the file is kept in memory
+  path: string;
+  name: string;
+  sizeKB: string;
+  formatInfo: string;
+  // Set when the file was compressed before sending
+  compression?: 'gzip' | 'zip';
+  // The file itself, when attachmentStorage is 'memory'
+  content?: Buffer;
+}
+
+/**
+ * All parts of a payload's attachment (custom payloads may only set `file`)
+ */
+function attachedFiles(payload: AlertPayload): AttachedFile[] {
+  return payload.files || (payload.file ? [payload.file] : []);
+}
+
+/**
+ * Bytes of an attachment, wherever it is kept
+ */
+function readAttachment(file: AttachedFile): Buffer {
+  return file.content || fs.readFileSync(file.path);
+}
+
+/**
+ * Where a transport delivered an alert (if it can tell)
+ */
+interface DeliveryReceipt {
+  channel?: string;
+  ts?: string;
+  fileId?: string;
+  // Parent message, when the alert was posted as a thread reply
+  threadTs?: string;
+}
+
+/**
+ * A routed Slack channel an alert has not fully reached yet.
+ * `receipt` is set when the message is there and only its upload is missing.
+ */
+interface PendingTarget {
+  target: RouteTarget;
+  receipt?: DeliveryReceipt;
+}
+
+/**
+ * Transport failure that knows when it is worth retrying and what already got through
+ */
+class DeliveryError extends Error {
+  constructor(
+    message: string,
+    // Server asked us to wait this long (Slack retry_after / HTTP Retry-After)
+    public readonly retryAfterMs?: number,
+    // Set when the message was posted but a later step (e.g. file upload) failed
+    public readonly receipt?: DeliveryReceipt,
+    // Channels still owed the alert, when it was routed to more than one
+    public readonly pendingTargets?: PendingTarget[]
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+/**
+ * A destination alerts can be delivered to
+ */
+interface Transport {
+  readonly name: string;
+  send(payload: AlertPayload): Promise<DeliveryReceipt | void>;
+}
+
+/**
+ * Minimal HTTP(S) POST helper - avoids pulling in an HTTP client dependency
+ */
+function httpPost(
+  url: string,
+  body: string | Buffer,
+  headers: Record<string, string | number> = {}
+): Promise<{ status: number; body: string; retryAfterMs?: number }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = target.protocol === 'http:' ? http.request : https.request;
+
+    const req = request(target, {
+      method: 'POST',
+      headers: { 'Content-Length': Buffer.byteLength(body), ...headers }
+    }, (res) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => {
+        const retryAfter = Number(res.headers['retry-after']);
+        resolve({
+          status: res.statusCode || 0,
+          body: data,
+          retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined
+        });
+      });
+    });
+
+    req.on('error', reject);
+    req.setTimeout(10000, () => req.destroy(new Error(`Request to ${target.host} timed out`)));
+    req.end(body);
+  });
+}
+
+/**
+ * Fail on non-2xx responses, keeping any Retry-After hint
+ */
+function assertOk(response: { status: number; body: string; retryAfterMs?: number }): void {
+  if (response.status < 200 || response.status >= 300) {
+    throw new DeliveryError(`HTTP ${response.status}: ${response.body.substring(0, 200)}`, response.retryAfterMs);
+  }
+}
+
+/**
+ * POST a JSON body and fail on non-2xx responses
+ */
+async function postJson(url: string, payload: unknown, headers: Record<string, string> = {}): Promise<string> {
+  const response = await httpPost(url, JSON.stringify(payload), {
+    'Content-Type': 'application/json',
+    ...headers
+  });
+
+  assertOk(response);
+  return response.body;
+}
+
+/**
+ * Re-wrap a transport error with a prefix, keeping the retry hint
+ */
+function wrapDeliveryError(prefix: string, error: unknown): DeliveryError {
+  return error instanceof DeliveryError
+    ? new DeliveryError(`${prefix}: ${error.message}`, error.retryAfterMs, error.receipt)
+    : new DeliveryError(`${prefix}: ${messageOf(error)}`);
+}
+
+/**
+ * Plain JSON representation of an alert (for webhooks and log sinks)
+ */
+function toPlainAlert(payload: AlertPayload): Record<string, any> {
+  return {
+    severity: payload.severity,
+    message: payload.message,
+    stack: payload.stack || undefined,
+    comment: payload.options.comment,
+    timestamp: payload.timestamp.toISOString(),
+    ...payload.metadata,
+    scope: payload.scope,
+    file: payload.file ? { name: payload.file.name, sizeKB: payload.file.sizeKB } : undefined,
+    files: payload.files && payload.files.length > 1
+      ? payload.files.map(file => ({ name: file.name, sizeKB: file.sizeKB }))
+      : undefined
+  };
+}
+
+/**
+ * Slack transport - chat.postMessage + files.uploadV2
+ */
+class SlackTransport implements Transport {
+  readonly name = 'slack';
+  private threads: ThreadTracker;
+
+  constructor(private config: ConfigStore) {
+    this.threads = new ThreadTracker(() => config.getThreadingOptions() || THREADING_DEFAULTS);
+  }
+
+  async send(payload: AlertPayload): Promise<DeliveryReceipt> {
+    return this.sendTo(payload, resolveRouteTargets(this.config, payload).map(target => ({ target })));
+  }
+
+  /**
+   * Deliver to each channel in turn. Every channel gets its attempt - a failure
+   * lists only the channels still owed the alert, so a retry never repeats one.
+   */
+  async sendTo(payload: AlertPayload, pending: PendingTarget[]): Promise<DeliveryReceipt> {
+    let receipt: DeliveryReceipt | undefined;
+    const failed: { pending: PendingTarget; error: DeliveryError }[] = [];
+
+    for (const { target, receipt: earlier } of pending) {
+      let posted = earlier;
+      try {
+        // 1️⃣ FIRST: Post the message, unless an earlier attempt already did
+        posted = posted || await this.post(payload, target);
+
+        // 2️⃣ SECOND: Upload file if fileData was provided
+        if (attachedFiles(payload).length) {
+          try {
+            posted.fileId = await this.uploadFile(payload, target.channelId, posted.threadTs || posted.ts);
+          } catch (fileError) {
+            this.config.getLog().warn('Slack file upload failed', { channel: target.channelName, error: messageOf(fileError) });
+            throw new DeliveryError(`Slack file upload failed: ${messageOf(fileError)}`,
+              fileError instanceof DeliveryError ? fileError.retryAfterMs : undefined, posted);
+          }
+        }
+      } catch (error) {
+        failed.push({ pending: { target, receipt: posted }, error: error instanceof DeliveryError ? error : toSlackDeliveryError(error) });
+      }
+      receipt = receipt || posted;
+    }
+
+    if (failed.length === 0) {
+      return receipt!;
+    }
+
+    const [first] = failed;
+    const message = failed.length < pending.length
+      ? `${first.error.message} (${failed.length} of ${pending.length} channels)`
+      : first.error.message;
+    throw new DeliveryError(message, first.error.retryAfterMs, receipt, failed.map(failure => failure.pending));
+  }
+
+  private async post(payload: AlertPayload, target: RouteTarget): Promise<DeliveryReceipt> {
+    const { severity, message, emoji, color } = payload;
+    const mentions = target.mentions.length ? `${target.mentions.join(' ')} ` : '';
+
+    const blocks = [...payload.blocks, ...this.actionBlocks(payload)];
+    if (mentions) {
+      blocks.splice(1, 0, { type: 'section', text: { type: 'mrkdwn', text: mentions.trim() } });
+    }
+
+    // Follow-ups go under the first alert with the same thread key
+    const key = threadKeyOf(payload, this.config.getThreadingOptions());
+    const thread = key ? await this.threads.join(target.channelName, key) : undefined;
+    const parent = thread && 'parent' in thread ? thread.parent : undefined;
+    const open = thread && 'open' in thread ? thread.open : undefined;
+
+    const content = {
+      text: `${mentions}${emoji} ${severity} Alert: ${message.substring(0, 100)}...`,
+      blocks: blocks,
+      attachments: [
+        {
+          color: color
+        }
+      ]
+    };
+
+    let messageResult: any;
+    try {
+      const client = this.config.getSlackClient();
+
+      // 1️⃣ FIRST: Send message with CHANNEL NAME
+      this.config.getLog().debug('Posting alert to Slack', { severity, channel: target.channelName, threadTs: parent?.ts });
+
+      messageResult = await client.chat.postMessage({
+        channel: target.channelName,
+        thread_ts: parent?.ts,
+        ...content
+      });
+
+      this.config.getLog().debug('Posted alert to Slack', { severity, channel: target.channelName, ts: messageResult.ts });
+    } catch (slackError) {
+      open?.(null);
+      throw toSlackDeliveryError(slackError);
+    }
+
+    open?.({ channel: messageResult.channel, ts: messageResult.ts, replies: 0, lastAt: new Date(), message: content });
+    if (parent) {
+      parent.replies++;
+      parent.lastAt = new Date();
+      await this.redrawThread(parent);
+    }
+
+    return { channel: messageResult.channel, ts: messageResult.ts, threadTs: parent?.ts };
+  }
+
+  /**
+   * Bring the parent's follow-up counter up to date - the reply itself already went out
+   */
+  private async redrawThread(parent: ThreadParent): Promise<void> {
+    if (!parent.message) return;
+
+    try {
+      await this.updateMessage(parent.channel, parent.ts, parent.message);
+    } catch (error) {
+      this.config.getLog().warn('Could not update the thread counter', { channel: parent.channel, ts: parent.ts, error: messageOf(error) });
+    }
+  }
+
+  /**
+   * Forget every thread, so the next alert of each starts a new one
+   */
+  clearThreads(): void {
+    this.threads.clear();
+  }
+
+  /**
+   * Upload the payload's attachment (every part of it) on its own
+   */
+  async uploadFile(payload: AlertPayload, channelId?: string, threadTs?: string): Promise<string | undefined> {
+    const { severity, options } = payload;
+    const files = attachedFiles(payload);
+    if (files.length === 0) return undefined;
+
+    channelId = channelId || options.channelId || this.config.getDefaultChannelId();
+
+    this.config.getLog().debug('Uploading attachment to Slack', { channelId, threadTs, files: files.map(file => file.name) });
+
+    let uploadResult: any;
+
+    try {
+      // Use uploadV2 with CHANNEL ID - split attachments go up in a single call, into the alert's thread
+      uploadResult = await this.config.getSlackClient().files.uploadV2({
+        channel_id: channelId,
+        thread_ts: threadTs,
+        file_uploads: files.map(file => ({
+          file: readAttachment(file),
+          filename: file.name,
+          title: `${severity} Alert - ${file.name}`
+        }))
+      });
+    } catch (slackError) {
+      throw toSlackDeliveryError(slackError);
+    }
+
+    this.config.getLog().debug('Uploaded attachment to Slack', { channelId, files: files.map(file => file.name) });
+    return uploadResult?.files?.[0]?.files?.[0]?.id;
+  }
+
+  /**
+   * Replace the content of an already posted message
+   */
+  async update(channel: string, ts: string, payload: AlertPayload, state?: AlertActionEvent): Promise<void> {
+    await this.updateMessage(channel, ts, {
+      text: `${payload.emoji} ${payload.severity} Alert: ${payload.message.substring(0, 100)}...`,
+      blocks: [...payload.blocks, ...this.actionBlocks(payload, state)],
+      attachments: [
+        {
+          color: payload.color
+        }
+      ]
+    });
+  }
+
+  /**
+   * Show who acted on a posted alert - the message comes from the interaction
+   * payload, so this works even after the alert has left memory
+   */
+  async updateState(message: { channel: string; ts: string; text?: string; blocks?: any[]; attachments?: any[] }, state: AlertActionEvent): Promise<void> {
+    const interactive = this.config.getInteractiveOptions()!;
+    const blocks = (message.blocks || [])
+      .filter(block => block.block_id !== STATUS_BLOCK_ID && block.block_id !== ACTIONS_BLOCK_ID);
+
+    await this.updateMessage(message.channel, message.ts, {
+      text: message.text,
+      blocks: [...blocks, ...buildActionBlocks(state.fingerprint, interactive, state)],
+      attachments: message.attachments
+    });
+  }
+
+  private actionBlocks(payload: AlertPayload, state?: AlertActionEvent): any[] {
+    const interactive = this.config.getInteractiveOptions();
+    if (!interactive || !payload.fingerprint || payload.options.actions === false) {
+      return [];
+    }
+    return buildActionBlocks(payload.fingerprint, interactive, state);
+  }
+
+  private async updateMessage(channel: string, ts: string, content: { text?: string; blocks: any[]; attachments?: any[] }): Promise<void> {
+    // Every redraw of a thread parent keeps its follow-up counter
+    const parent = this.threads.byTs(ts);
+    if (parent) {
+      parent.message = content;
+      content = { ...content, blocks: withThreadBlock(content.blocks, parent) };
+    }
+
+    try {
+      await this.config.getSlackClient().chat.update({ channel, ts, ...content });
+    } catch (slackError) {
+      throw toSlackDeliveryError(slackError);
+    }
+  }
+}
+
+/**
+ * Slack SDK error -> DeliveryError, honouring retry_after on rate limits
+ */
+function toSlackDeliveryError(slackError: unknown): DeliveryError {
+  // Platform errors carry data.error, rate-limit errors retryAfter (in seconds)
+  const { retryAfter, data }: { retryAfter?: number; data?: { error?: string } } =
+    typeof slackError === 'object' && slackError !== null ? slackError : {};
+  return new DeliveryError(
+    `Slack API failed: ${data?.error || messageOf(slackError)}`,
+    retryAfter ? retryAfter * 1000 : undefined
+  );
+}
+
+/**
+ * Generic webhook transport - POSTs the alert as plain JSON
+ */
+class WebhookTransport implements Transport {
+  readonly name: string;
+
+  constructor(private options: {
+    url: string;
+    headers?: Record<string, string>;
+    // Embed the attachment content in the request body (UTF-8 text, base64 once compressed)
+    includeFileContent?: boolean;
+    name?: string;
+  }) {
+    if (!options.url) {
+      throw new Error('WebhookTransport: url is required');
+    }
+    this.name = options.name || 'webhook';
+  }
+
+  async send(payload: AlertPayload): Promise<void> {
+    const body = toPlainAlert(payload);
+
+    if (payload.file && this.options.includeFileContent) {
+      const files = attachedFiles(payload);
+      const withContent = files.map(file => file.compression
+        ? { name: file.name, sizeKB: file.sizeKB, encoding: 'base64', content: readAttachment(file).toString('base64') }
+        : { name: file.name, sizeKB: file.sizeKB, content: readAttachment(file).toString('utf8') });
+      body.file = withContent[0];
+      if (files.length > 1) body.files = withContent;
+    }
+
+    try {
+      await postJson(this.options.url, body, this.options.headers);
+    } catch (error) {
+      throw wrapDeliveryError('Webhook request failed', error);
+    }
+  }
+}
+
+/**
+ * Microsoft Teams incoming webhook transport (MessageCard format)
+ */
+class TeamsTransport implements Transport {
+  readonly name = 'teams';
+
+  constructor(private options: { webhookUrl: string }) {
+    if (!options.webhookUrl) {
+      throw new Error('TeamsTransport: webhookUrl is required');
+    }
+  }
+
+  async send(payload: AlertPayload): Promise<void> {
+    const { severity, message, emoji, color, timestamp, options, file } = payload;
+
+    const facts = [{ name: 'Time', value: timestamp.toLocaleString() }];
+    if (file) {
+      // Incoming webhooks cannot carry files - reference it instead
+      const names = attachedFiles(payload).map(part => `${part.name} (${part.sizeKB} KB)`);
+      facts.push({ name: names.length > 1 ? 'Attached Files' : 'Attached File', value: names.join(', ') });
+    }
+    if (options.comment) {
+      facts.push({ name: 'Comment', value: options.comment });
+    }
+
+    const card = {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      themeColor: color.replace('#', ''),
+      summary: `${severity} Alert`,
+      title: `${emoji} ${severity} ALERT`,
+      sections: [
+        {
+          text: `<pre>${message.substring(0, 1000)}</pre>`,
+          facts
+        }
+      ]
+    };
+
+    try {
+      await postJson(this.options.webhookUrl, card);
+    } catch (error) {
+      throw wrapDeliveryError('Teams webhook failed', error);
+    }
+  }
+}
+
+/**
+ * Discord webhook transport - embeds, with the attachment sent as multipart
+ */
+class DiscordTransport implements Transport {
+  readonly name = 'discord';
+
+  constructor(private options: { webhookUrl: string; username?: string }) {
+    if (!options.webhookUrl) {
+      throw new Error('DiscordTransport: webhookUrl is required');
+    }
+  }
+
+  async send(payload: AlertPayload): Promise<void> {
+    const { severity, message, emoji, color, timestamp, options, file } = payload;
+
+    const fields: { name: string; value: string }[] = [];
+    if (file) {
+      fields.push({ name: 'Attached File', value: `${file.name}\n${file.formatInfo.replace(/\*/g, '')}` });
+    }
+    if (options.comment) {
+      fields.push({ name: 'Comment', value: options.comment });
+    }
+
+    const discordMessage = {
+      username: this.options.username,
+      embeds: [
+        {
+          title: `${emoji} ${severity} ALERT`,
+          description: `\`\`\`${message.substring(0, 1000)}\`\`\``,
+          color: parseInt(color.substring(1), 16),
+          fields,
+          timestamp: timestamp.toISOString()
+        }
+      ]
+    };
+
+    try {
+      if (!file) {
+        await postJson(this.options.webhookUrl, discordMessage);
+        return;
+      }
+
+      const boundary = `----prod-alert-sentry-${crypto.randomBytes(8).toString('hex')}`;
+      const body = Buffer.concat([
+        Buffer.from(
+          `--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="payload_json"\r\n` +
+          `Content-Type: application/json\r\n\r\n` +
+          `${JSON.stringify(discordMessage)}\r\n`
+        ),
+        ...attachedFiles(payload).flatMap((part, index) => [
+          Buffer.from(
+            `--${boundary}\r\n` +
+            `Content-Disposition: form-data; name="files[${index}]"; filename="${part.name}"\r\n` +
+            `Content-Type: application/octet-stream\r\n\r\n`
+          ),
+          readAttachment(part),
+          Buffer.from('\r\n')
+        ]),
+        Buffer.from(`--${boundary}--\r\n`)
+      ]);
+
+      const response = await httpPost(this.options.webhookUrl, body, {
+        'Content-Type': `multipart/form-data; boundary=${boundary}`
+      });
+      assertOk(response);
+    } catch (error) {
+      throw wrapDeliveryError('Discord webhook failed', error);
+    }
+  }
+}
+
+/**
+ * Anything with a nodemailer-compatible sendMail()
+ */
+interface MailTransporter {
+  sendMail(mail: Record<string, any>): Promise<any>;
+}
+
+/**
+ * SMTP email transport - delegates delivery to a nodemailer-style transporter
+ */
+class EmailTransport implements Transport {
+  readonly name = 'email';
+
+  constructor(private options: {
+    transporter: MailTransporter;
+    from: string;
+    to: string | string[];
+    subjectPrefix?: string;
+  }) {
+    if (!options.transporter || typeof options.transporter.sendMail !== 'function') {
+      throw new Error('EmailTransport: transporter with a sendMail() method is required');
+    }
+    if (!options.from || !options.to) {
+      throw new Error('EmailTransport: from and to are required');
+    }
+  }
+
+  async send(payload: AlertPayload): Promise<void> {
+    const { severity, message, stack, emoji, timestamp, options, file } = payload;
+
+    let text = `${severity} ALERT\n\nError:\n${message}\n`;
+    if (stack) {
+      text += `\nStack trace:\n${stack}\n`;
+    }
+    if (options.comment) {
+      text += `\nComment: ${options.comment}\n`;
+    }
+    text += `\nTime: ${timestamp.toLocaleString()}\n`;
+
+    try {
+      await this.options.transporter.sendMail({
+        from: this.options.from,
+        to: this.options.to,
+        subject: `${this.options.subjectPrefix || ''}${emoji} ${severity} Alert: ${message.substring(0, 100)}`,
+        text,
+        attachments: file ? attachedFiles(payload).map(part => part.content
+          ? { filename: part.name, content: part.content }
+          : { filename: part.name, path: part.path }) : undefined
+      });
+    } catch (error) {
+      throw wrapDeliveryError('Email delivery failed', error);
+    }
+  }
+}
+
+/**
+ * Local sink - appends one JSON line per alert to a file, or writes to stdout
+ */
+class FileTransport implements Transport {
+  readonly name: string;
+
+  constructor(private options: { filePath?: string } = {}) {
+    this.name = options.filePath ? 'file' : 'stdout';
+  }
+
+  async send(payload: AlertPayload): Promise<void> {
+    const line = JSON.stringify(toPlainAlert(payload)) + '\n';
+
+    if (!this.options.filePath) {
+      process.stdout.write(line);
+      return;
+    }
+
+    try {
+      await fs.promises.appendFile(this.options.filePath, line);
+    } catch (error) {
+      throw wrapDeliveryError('File sink write failed', error);
+    }
+  }
+}
+
+// ============================================
+// 16. FAKE SLACK (recording client for tests)
+// ============================================
+/**
+ * The part of the Slack WebClient the library calls. Pass your own as
+ * `slackClient` to init() - e.g. a FakeSlackClient in tests.
+ */
+interface SlackApiClient {
+  chat: {
+    postMessage(args: any): Promise<any>;
+    update(args: any): Promise<any>;
+  };
+  files: {
+    uploadV2(args: any): Promise<any>;
+  };
+}
+
+type SlackMethod = 'chat.postMessage' | 'chat.update' | 'files.uploadV2';
+
+interface SlackCall {
+  method: SlackMethod;
+  args: Record<string, any>;
+  response: any;
+  at: Date;
+}
+
+interface SentMessage {
+  channel: string;
+  ts: string;
+  // Parent message, for thread replies
+  threadTs?: string;
+  text: string;
+  blocks: any[];
+  // Severity color of the message attachment
+  color?: string;
+}
+
+interface UploadedFile {
+  channelId: string;
+  fileId: string;
+  name: string;
+  title?: string;
+  // Parent message, for uploads into a thread
+  threadTs?: string;
+  content: Buffer;
+}
+
+/**
+ * Stand-in for the Slack WebClient that records every call instead of
+ * talking to Slack. Responses have the same shape as the real API's.
+ */
+class FakeSlackClient implements SlackApiClient {
+  private calls: SlackCall[] = [];
+  private failures = new Map<SlackMethod, Error[]>();
+  private messageCount = 0;
+  private fileCount = 0;
+
+  readonly chat = {
+    postMessage: async (args: any): Promise<any> => {
+      const ts = `${Math.floor(Date.now() / 1000)}.${String(++this.messageCount).padStart(6, '0')}`;
+      return this.record('chat.postMessage', args, { ok: true, channel: args.channel, ts });
+    },
+    update: async (args: any): Promise<any> => {
+      return this.record('chat.update', args, { ok: true, channel: args.channel, ts: args.ts });
+    }
+  };
+
+  readonly files = {
+    uploadV2: async (args: any): Promise<any> => {
+      const uploads: any[] = args.file_uploads || [args];
+      const files = uploads.map(upload => ({
+        id: `F${String(++this.fileCount).padStart(8, '0')}`,
+        name: upload.filename,
+        title: upload.title
+      }));
+      return this.record('files.uploadV2', args, { ok: true, files: [{ ok: true, files }] });
+    }
+  };
+
+  /**
+   * Make the next call to `method` fail like the Slack API would. With
+   * `retryAfterSeconds` it fails as a rate-limited call.
+   */
+  failNext(method: SlackMethod, error: string = 'internal_error', retryAfterSeconds?: number): void {
+    const failure = retryAfterSeconds
+      ? Object.assign(new Error(`A rate limit was exceeded (url: ${method}, retry-after: ${retryAfterSeconds})`),
+        { code: 'slack_webapi_rate_limited_error', retryAfter: retryAfterSeconds })
+      : Object.assign(new Error(`An API error occurred: ${error}`),
+        { code: 'slack_webapi_platform_error', data: { ok: false, error } });
+
+    this.failures.set(method, [...(this.failures.get(method) || []), failure]);
+  }
+
+  /**
+   * Every successful call in order, or only those to `method`
+   */
+  getCalls(method?: SlackMethod): SlackCall[] {
+    return this.calls.filter(call => !method || call.method === method);
+  }
+
+  getSentMessages(): SentMessage[] {
+    return this.getCalls('chat.postMessage').map(call => this.toMessage(call));
+  }
+
+  getUpdates(): SentMessage[] {
+    return this.getCalls('chat.update').map(call => this.toMessage(call));
+  }
+
+  getUploadedFiles(): UploadedFile[] {
+    return this.getCalls('files.uploadV2').flatMap(call => {
+      const uploads: any[] = call.args.file_uploads || [call.args];
+      return uploads.map((upload, index) => ({
+        channelId: call.args.channel_id,
+        fileId: call.response.files[0].files[index].id,
+        name: upload.filename,
+        title: upload.title,
+        threadTs: call.args.thread_ts,
+        content: Buffer.isBuffer(upload.file) ? upload.file : Buffer.from(upload.file ?? upload.content ?? '')
+      }));
+    });
+  }
+
+  /**
+   * Forget recorded calls and pending failures
+   */
+  clear(): void {
+    this.calls = [];
+    this.failures.clear();
+  }
+
+  private record(method: SlackMethod, args: any, response: any): any {
+    const failure = this.failures.get(method)?.shift();
+    if (failure) throw failure;
+
+    this.calls.push({ method, args, response, at: new Date() });
+    return response;
+  }
+
+  private toMessage(call: SlackCall): SentMessage {
+    return {
+      channel: call.args.channel,
+      ts: call.response.ts,
+      threadTs: call.args.thread_ts,
+      text: call.args.text,
+      blocks: call.args.blocks || [],
+      color: call.args.attachments?.[0]?.color
+    };
+  }
+}
+
+// ============================================
+// 17. DEDUPLICATION (fingerprint-based grouping)
+// ============================================
+interface DedupeOptions {
+  // How long repeats of the same alert are suppressed (default: 60s)
+  windowMs?: number;
+  // How many top stack frames contribute to the fingerprint (default: 3)
+  stackFrames?: number;
+}
+
+interface FingerprintEntry {
+  count: number;
+  firstSeen: Date;
+  // Set once the first occurrence has been delivered
+  payload?: AlertPayload;
+  slackRef?: { channel: string; ts: string };
+}
+
+/**
+ * Strip the volatile parts of a message (ids, numbers, hex) so that
+ * "User 123 not found" and "User 456 not found" group together
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Fingerprint = severity + normalized message + top stack frames
+ */
+function computeFingerprint(severity: Severity, error: Error | string, stackFrames: number): string {
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+  let frames: string[] = [];
+  if (error instanceof Error && error.stack) {
+    frames = error.stack
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.startsWith('at '))
+      .slice(0, stackFrames);
+  }
+
+  return crypto
+    .createHash('sha1')
+    .update([severity, normalizeMessage(message), ...frames].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Tracks fingerprints seen inside the current window
+ */
+class FingerprintStore {
+  private entries = new Map<string, FingerprintEntry>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private onWindowClose: (entry: FingerprintEntry) => void) { }
+
+  /**
+   * Record an occurrence. Returns true if this is the first one in the window.
+   */
+  hit(fingerprint: string, windowMs: number): boolean {
+    const existing = this.entries.get(fingerprint);
+    if (existing) {
+      existing.count++;
+      return false;
+    }
+
+    const entry: FingerprintEntry = { count: 1, firstSeen: new Date() };
+    this.entries.set(fingerprint, entry);
+
+    // Flush counts when the window closes - never keep the process alive for it
+    const timer = setTimeout(() => this.close(fingerprint), windowMs);
+    timer.unref();
+    this.timers.set(fingerprint, timer);
+
+    return true;
+  }
+
+  /**
+   * Forget every window without summarizing
+   */
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Close every open window now (e.g. before shutdown)
+   */
+  closeAll(): void {
+    Array.from(this.entries.keys()).forEach(fingerprint => this.close(fingerprint));
+  }
+
+  private close(fingerprint: string): void {
+    const entry = this.entries.get(fingerprint);
+    clearTimeout(this.timers.get(fingerprint));
+    this.entries.delete(fingerprint);
+    this.timers.delete(fingerprint);
+
+    if (entry && entry.count > 1) {
+      this.onWindowClose(entry);
+    }
+  }
+
+  get(fingerprint: string): FingerprintEntry | undefined {
+    return this.entries.get(fingerprint);
+  }
+
+  /**
+   * End a window early without summarizing, so the next occurrence alerts again
+   */
+  forget(fingerprint: string): void {
+    clearTimeout(this.timers.get(fingerprint));
+    this.entries.delete(fingerprint);
+    this.timers.delete(fingerprint);
+  }
+}
+
+// ============================================
+// 18. INTERACTIVE ACTIONS (acknowledge / resolve / snooze)
+// ============================================
+type AlertAction = 'acknowledge' | 'resolve' | 'snooze' | 'assign';
+
+interface InteractiveOptions {
+  // Slack app signing secret, used to verify interaction requests (default: SLACK_SIGNING_SECRET)
+  signingSecret?: string;
+  // Buttons added to every Slack alert, in order (default: all four)
+  actions?: AlertAction[];
+  // How long "Snooze" silences identical alerts (default: 1 hour)
+  snoozeMs?: number;
+}
+
+interface AlertActionEvent {
+  action: AlertAction;
+  fingerprint: string;
+  userId: string;
+  userName?: string;
+  // The alert message the button belonged to
+  channel: string;
+  ts: string;
+  at: Date;
+  // Identical alerts are suppressed until then (snooze only)
+  until?: Date;
+}
+
+interface InteractionResponse {
+  status: number;
+  body: string;
+}
+
+const ALERT_ACTIONS: AlertAction[] = ['acknowledge', 'resolve', 'snooze', 'assign'];
+const ACTIONS_BLOCK_ID = 'alert_actions';
+const STATUS_BLOCK_ID = 'alert_status';
+// Signed requests older than this are rejected as replays, as Slack recommends
+const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+function formatDuration(ms: number): string {
+  return ms % 3600000 === 0 ? `${ms / 3600000}h` : `${Math.max(1, Math.round(ms / 60000))}m`;
+}
+
+/**
+ * The status line and the buttons that go at the end of an interactive alert.
+ * A resolved alert keeps its status line but loses the buttons.
+ */
+function buildActionBlocks(fingerprint: string, options: Required<InteractiveOptions>, state?: AlertActionEvent): any[] {
+  const blocks: any[] = [];
+
+  if (state) {
+    const who = `<@${state.userId}>`;
+    const at = state.at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const text = {
+      acknowledge: `👀 *Acknowledged* by ${who} at ${at}`,
+      resolve: `✅ *Resolved* by ${who} at ${at}`,
+      snooze: `😴 *Snoozed* by ${who} until ${state.until?.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+      assign: `🙋 *Assigned* to ${who} at ${at}`
+    }[state.action];
+    blocks.push({ type: 'context', block_id: STATUS_BLOCK_ID, elements: [{ type: 'mrkdwn', text }] });
+    if (state.action === 'resolve') return blocks;
+  }
+
+  const labels: Record<AlertAction, string> = {
+    acknowledge: 'Acknowledge',
+    resolve: 'Resolve',
+    snooze: `Snooze ${formatDuration(options.snoozeMs)}`,
+    assign: 'Assign to me'
+  };
+
+  blocks.push({
+    type: 'actions',
+    block_id: ACTIONS_BLOCK_ID,
+    elements: options.actions.map(action => ({
+      type: 'button',
+      action_id: `alert_${action}`,
+      text: { type: 'plain_text', text: labels[action], emoji: true },
+      value: fingerprint,
+      ...(action === 'resolve' ? { style: 'primary' } : {})
+    }))
+  });
+
+  return blocks;
+}
+
+/**
+ * v0 signature Slack puts in X-Slack-Signature
+ */
+function signSlackRequest(signingSecret: string, body: string, timestamp: number): string {
+  const digest = crypto.createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex');
+  return `v0=${digest}`;
+}
+
+function verifySlackRequest(
+  signingSecret: string,
+  body: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  now: number = Date.now()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!signature || !Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signSlackRequest(signingSecret, body, seconds));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * The exact bytes Slack signed - a body parser that already ran must have kept them as req.rawBody
+ */
+function readRawBody(req: any): Promise<string> {
+  const raw = req.rawBody ?? req.body;
+  if (typeof raw === 'string') return Promise.resolve(raw);
+  if (Buffer.isBuffer(raw)) return Promise.resolve(raw.toString('utf8'));
+  if (raw !== undefined || req.readableEnded) {
+    return Promise.reject(new Error('error-notifier: The request body was already parsed - mount the interaction handler before body parsers or keep req.rawBody'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Snooze windows and the latest action taken on each fingerprint
+ */
+class AlertStateStore {
+  private states = new Map<string, AlertActionEvent>();
+  private snoozes = new Map<string, number>();
+
+  record(event: AlertActionEvent): void {
+    this.states.set(event.fingerprint, event);
+
+    if (event.action === 'snooze' && event.until) {
+      this.snoozes.set(event.fingerprint, event.until.getTime());
+    } else if (event.action === 'resolve') {
+      this.snoozes.delete(event.fingerprint);
+    }
+  }
+
+  /**
+   * The latest action, if it was taken on the message at `ts`
+   */
+  get(fingerprint: string, ts?: string): AlertActionEvent | undefined {
+    const state = this.states.get(fingerprint);
+    return state && (!ts || state.ts === ts) ? state : undefined;
+  }
+
+  isSnoozed(fingerprint: string, now: number = Date.now()): boolean {
+    const until = this.snoozes.get(fingerprint);
+    if (until === undefined) return false;
+    if (until > now) return true;
+
+    this.snoozes.delete(fingerprint);
+    return false;
+  }
+
+  clear(): void {
+    this.states.clear();
+    this.snoozes.clear();
+  }
+}
+
+// ============================================
+// 19. RATE LIMITING (token buckets)
+// ============================================
+interface RateLimitOptions {
+  // Alerts per minute for each severity, e.g. { HIGH: 20, LOW: 5 }
+  perSeverity?: Partial<Record<Severity, number>>;
+  // Alerts per minute for every channel, or per channel name
+  perChannel?: number | Record<string, number>;
+  // What to do with alerts over budget (default: 'queue')
+  overflow?: 'queue' | 'drop' | 'digest';
+  // Queued alerts beyond this are dropped (default: 100)
+  maxQueueSize?: number;
+}
+
+type ResolvedRateLimitOptions = RateLimitOptions & Required<Pick<RateLimitOptions, 'overflow' | 'maxQueueSize'>>;
+
+/**
+ * Classic token bucket - `capacity` tokens, refilled evenly over a minute
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private intervalMs: number = 60000) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refillRate = this.capacity / this.intervalMs;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * refillRate);
+    this.lastRefill = now;
+  }
+
+  hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  /**
+   * Milliseconds until the next whole token is available
+   */
+  msUntilToken(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) * (this.intervalMs / this.capacity));
+  }
+}
+
+/**
+ * Per-severity and per-channel budgets - an alert needs a token from its
+ * severity and from every channel it is posted to
+ */
+class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private options: RateLimitOptions) { }
+
+  private getBuckets(severity: Severity, channels: string[]): TokenBucket[] {
+    const buckets: TokenBucket[] = [];
+
+    const severityLimit = this.options.perSeverity?.[severity];
+    if (severityLimit) {
+      buckets.push(this.getBucket(`severity:${severity}`, severityLimit));
+    }
+
+    const perChannel = this.options.perChannel;
+    channels.forEach(channel => {
+      const channelLimit = typeof perChannel === 'number' ? perChannel : perChannel?.[channel];
+      if (channelLimit) {
+        buckets.push(this.getBucket(`channel:${channel}`, channelLimit));
+      }
+    });
+
+    return buckets;
+  }
+
+  private getBucket(key: string, capacity: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(capacity);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Take a token from every matching bucket, or none at all
+   */
+  tryAcquire(severity: Severity, channels: string[]): boolean {
+    const buckets = this.getBuckets(severity, channels);
+    if (!buckets.every(bucket => bucket.hasToken())) {
+      return false;
+    }
+    buckets.forEach(bucket => bucket.take());
+    return true;
+  }
+
+  msUntilAvailable(severity: Severity, channels: string[]): number {
+    return Math.max(0, ...this.getBuckets(severity, channels).map(bucket => bucket.msUntilToken()));
+  }
+}
+
+// ============================================
+// 20. DIGEST MODE (scheduled summaries for low-priority alerts)
+// ============================================
+interface DigestOptions {
+  // Severities buffered into the digest (default: ['LOW'])
+  severities?: ('LOW' | 'MEDIUM')[];
+  // Post every N minutes (default: 60) ...
+  intervalMinutes?: number;
+  // ... or at fixed times of day instead, e.g. '09:00' or ['09:00', '17:30']
+  at?: string | string[];
+  // Offenders listed in the summary message (default: 5)
+  topOffenders?: number;
+}
+
+type ResolvedDigestOptions = Required<Omit<DigestOptions, 'at'>> & { at: string[] };
+
+// setTimeout takes a 32-bit delay - anything longer fires after 1ms
+const MAX_DIGEST_INTERVAL_MINUTES = Math.floor((2 ** 31 - 1) / 60000);
+
+interface DigestEntry {
+  time: Date;
+  severity: Severity;
+  message: string;
+  fingerprint: string;
+  comment?: string;
+}
+
+interface DigestBucket {
+  since: Date;
+  options: AlertOptions;
+  entries: DigestEntry[];
+}
+
+/**
+ * Milliseconds until the next of the given HH:MM times (local time)
+ */
+function msUntilNextTime(times: string[], now: Date = new Date()): number {
+  const candidates = times.map(time => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const next = new Date(now);
+    next.setHours(hours, minutes, 0, 0);
+    if (next.getTime() <= now.getTime()) {
+      next.setDate(next.getDate() + 1);
+    }
+    return next.getTime() - now.getTime();
+  });
+  return Math.min(...candidates);
+}
+
+/**
+ * Buffers alerts per target channel and hands each channel's batch to
+ * `onFlush` on schedule
+ */
+class DigestScheduler {
+  private buckets = new Map<string, DigestBucket>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private options: ResolvedDigestOptions,
+    private onFlush: (bucket: DigestBucket) => void
+  ) {
+    this.schedule();
+  }
+
+  accepts(severity: Severity): boolean {
+    return (this.options.severities as Severity[]).includes(severity);
+  }
+
+  add(channel: string, entry: DigestEntry, options: AlertOptions): void {
+    let bucket = this.buckets.get(channel);
+    if (!bucket) {
+      bucket = {
+        since: entry.time,
+        options: { channelName: options.channelName, channelId: options.channelId },
+        entries: []
       };
+      this.buckets.set(channel, bucket);
+    }
+    bucket.entries.push(entry);
+  }
+
+  /**
+   * Hand every non-empty bucket over now
+   */
+  flushAll(): void {
+    const buckets = Array.from(this.buckets.values());
+    this.buckets.clear();
+    buckets.forEach(bucket => this.onFlush(bucket));
+  }
+
+  getOptions(): ResolvedDigestOptions {
+    return this.options;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.buckets.clear();
+  }
+
+  private schedule(): void {
+    const delay = this.options.at.length > 0
+      ? msUntilNextTime(this.options.at)
+      : this.options.intervalMinutes * 60 * 1000;
+
+    // Buffered alerts are flushed by alert.flush() on shutdown - don't hold the process open
+    this.timer = setTimeout(() => {
+      this.flushAll();
+      this.schedule();
+    }, delay);
+    this.timer.unref();
+  }
+}
+
+/**
+ * Group entries by fingerprint, most frequent first
+ */
+function summarizeDigest(entries: DigestEntry[]): { message: string; severity: Severity; count: number }[] {
+  const groups = new Map<string, { message: string; severity: Severity; count: number }>();
+
+  for (const entry of entries) {
+    const group = groups.get(entry.fingerprint);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(entry.fingerprint, { message: entry.message, severity: entry.severity, count: 1 });
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+// ============================================
+// 21. RETRY OUTBOX (durable, on disk)
+// ============================================
+interface RetryOptions {
+  // Attempts per transport before an alert is dead-lettered (default: 5)
+  maxAttempts?: number;
+  // First retry delay, doubled on every attempt (default: 2s)
+  baseDelayMs?: number;
+  // Upper bound for the backoff delay (default: 5min)
+  maxDelayMs?: number;
+}
+
+/**
+ * AlertPayload in a form that survives a process restart
+ */
+type SerializedFile = Omit<AttachedFile, 'path' | 'content'> & { content: string };
+
+interface SerializedPayload extends Omit<AlertPayload, 'timestamp' | 'file' | 'files'> {
+  timestamp: string;
+  files?: SerializedFile[];
+  // Entries written before attachments could be split
+  file?: SerializedFile;
+}
+
+interface OutboxEntry {
+  id: string;
+  transport: string;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  lastError: string;
+  // Message already posted - only the remaining step needs retrying
+  receipt?: DeliveryReceipt;
+  // Slack channels the alert has not fully reached - the others are not sent to again
+  pendingTargets?: PendingTarget[];
+  payload: SerializedPayload;
+}
+
+interface DeadLetter {
+  id: string;
+  transport: string;
+  attempts: number;
+  createdAt: string;
+  lastError: string;
+  severity: Severity;
+  message: string;
+}
+
+/**
+ * Failed deliveries, one JSON file per entry under <tempDir>/outbox.
+ * Retried with exponential backoff + jitter, moved to <tempDir>/dead-letter
+ * once maxAttempts is reached. With attachmentStorage 'memory' nothing is
+ * written to disk - entries only last as long as the process.
+ */
+class Outbox {
+  private outboxDir: string | null = null;
+  private deadLetterDir: string | null = null;
+  private entries = new Map<string, OutboxEntry>();
+  // Dead letters when there is no directory to keep them in
+  private deadLetters = new Map<string, OutboxEntry>();
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    private fileCreator: FileCreator,
+    // null keeps the outbox in memory
+    tempDir: string | null,
+    private options: Required<RetryOptions>,
+    private retry: (entry: OutboxEntry, payload: AlertPayload) => Promise<void>,
+    private emitter: EventEmitter,
+    private log: DiagnosticLog
+  ) {
+    if (tempDir === null) return;
+
+    this.outboxDir = path.join(tempDir, 'outbox');
+    this.deadLetterDir = path.join(tempDir, 'dead-letter');
+    fs.mkdirSync(this.outboxDir, { recursive: true });
+    fs.mkdirSync(this.deadLetterDir, { recursive: true });
+
+    // Pick up whatever a previous process left behind
+    for (const file of fs.readdirSync(this.outboxDir)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        const entry: OutboxEntry = JSON.parse(fs.readFileSync(path.join(this.outboxDir, file), 'utf8'));
+        this.entries.set(entry.id, entry);
+      } catch (error) {
+        this.log.warn('Skipped unreadable outbox entry', { file });
+      }
+    }
+
+    if (this.entries.size > 0) {
+      this.log.info('Resuming undelivered alerts from the outbox', { count: this.entries.size });
+      this.schedule();
+    }
+  }
+
+  /**
+   * Persist a failed delivery for retry
+   */
+  enqueue(transport: string, payload: AlertPayload, error: DeliveryError | Error): void {
+    const deliveryError = error as DeliveryError;
+    const entry: OutboxEntry = {
+      id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      transport,
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: Date.now() + this.getDelay(1, deliveryError.retryAfterMs),
+      lastError: error.message,
+      receipt: deliveryError.receipt,
+      pendingTargets: deliveryError.pendingTargets,
+      payload: this.serialize(payload)
+    };
+
+    if (entry.attempts >= this.options.maxAttempts) {
+      this.deadLetter(entry);
+      return;
+    }
+
+    this.write(entry);
+    this.log.info('Queued alert for retry', { severity: payload.severity, transport, id: entry.id });
+    this.schedule();
+  }
+
+  getDepth(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * New retry settings (config reload) - they apply from the next attempt
+   */
+  setOptions(options: Required<RetryOptions>): void {
+    this.options = options;
+  }
+
+  /**
+   * Stop retrying in this process - entries stay on disk for the next one
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getDeadLetters(): DeadLetter[] {
+    return this.readDeadLetters().map(entry => ({
+      id: entry.id,
+      transport: entry.transport,
+      attempts: entry.attempts,
+      createdAt: entry.createdAt,
+      lastError: entry.lastError,
+      severity: entry.payload.severity,
+      message: entry.payload.message
+    }));
+  }
+
+  /**
+   * Move every dead letter back into the outbox with a fresh attempt budget
+   */
+  requeueDeadLetters(): number {
+    const deadLetters = this.readDeadLetters();
+
+    for (const entry of deadLetters) {
+      if (this.deadLetterDir) {
+        fs.unlinkSync(path.join(this.deadLetterDir, `${entry.id}.json`));
+      } else {
+        this.deadLetters.delete(entry.id);
+      }
+      this.write({ ...entry, attempts: 0, nextAttemptAt: Date.now() });
+    }
+
+    this.schedule();
+    return deadLetters.length;
+  }
+
+  /**
+   * Exponential backoff with equal jitter, unless the server told us how long to wait
+   */
+  private getDelay(attempts: number, retryAfterMs?: number): number {
+    if (retryAfterMs) return retryAfterMs;
+
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempts - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.entries.size === 0) return;
+
+    const next = Math.min(...Array.from(this.entries.values()).map(entry => entry.nextAttemptAt));
+
+    // Never keep the process alive just to retry - flush() is the way to wait
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.processDue().catch(() => { });
+    }, Math.max(0, next - Date.now()));
+    this.timer.unref();
+  }
+
+  private async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const due = Array.from(this.entries.values()).filter(entry => entry.nextAttemptAt <= Date.now());
+
+      for (const entry of due) {
+        let filePaths: string[] = [];
+
+        try {
+          const payload = this.deserialize(entry.payload);
+          filePaths = attachedFiles(payload).map(file => file.path);
+          await this.retry(entry, payload);
+
+          this.remove(entry);
+          this.log.info('Retried alert', { severity: entry.payload.severity, transport: entry.transport, attempts: entry.attempts + 1 });
+        } catch (error) {
+          entry.attempts++;
+          entry.lastError = messageOf(error);
+          // Channels reached on this attempt are done - keep only the rest
+          if (error instanceof DeliveryError && error.pendingTargets) {
+            entry.pendingTargets = error.pendingTargets;
+          }
+
+          if (entry.attempts >= this.options.maxAttempts) {
+            this.deadLetter(entry);
+          } else {
+            entry.nextAttemptAt = Date.now() + this.getDelay(entry.attempts, error instanceof DeliveryError ? error.retryAfterMs : undefined);
+            this.write(entry);
+          }
+        } finally {
+          for (const filePath of filePaths) {
+            await this.fileCreator.deleteFile(filePath);
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+      this.schedule();
+    }
+  }
+
+  private deadLetter(entry: OutboxEntry): void {
+    this.remove(entry);
+    if (this.deadLetterDir) {
+      fs.writeFileSync(path.join(this.deadLetterDir, `${entry.id}.json`), JSON.stringify(entry));
+    } else {
+      this.deadLetters.set(entry.id, entry);
+    }
+
+    this.emitter.emit(EVENTS.INTERNAL_ERROR,
+      new Error(`Delivery via ${entry.transport} dead-lettered after ${entry.attempts} attempts: ${entry.lastError}`));
+  }
+
+  private readDeadLetters(): OutboxEntry[] {
+    const directory = this.deadLetterDir;
+    if (!directory) return Array.from(this.deadLetters.values());
+
+    return fs.readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')) as OutboxEntry);
+  }
+
+  /**
+   * Write via a temp file + rename so a crash never leaves half an entry
+   */
+  private write(entry: OutboxEntry): void {
+    if (this.outboxDir) {
+      const target = path.join(this.outboxDir, `${entry.id}.json`);
+      fs.writeFileSync(`${target}.tmp`, JSON.stringify(entry));
+      fs.renameSync(`${target}.tmp`, target);
+    }
+    this.entries.set(entry.id, entry);
+  }
+
+  private remove(entry: OutboxEntry): void {
+    this.entries.delete(entry.id);
+    if (!this.outboxDir) return;
+
+    try {
+      fs.unlinkSync(path.join(this.outboxDir, `${entry.id}.json`));
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Inline the attachment so the entry doesn't depend on the temp file surviving
+   */
+  private serialize(payload: AlertPayload): SerializedPayload {
+    const { file, files, timestamp, ...rest } = payload;
+    // The raw data is already in the files (redacted), and the blocks are already rendered
+    const { fileData, template, ...options } = payload.options;
+    const parts = attachedFiles(payload);
+    return {
+      ...rest,
+      options,
+      timestamp: timestamp.toISOString(),
+      files: parts.length ? parts.map(({ path: filePath, content, ...part }) => ({
+        ...part,
+        content: readAttachment({ path: filePath, content, ...part }).toString('base64')
+      })) : undefined
+    };
+  }
+
+  private deserialize(serialized: SerializedPayload): AlertPayload {
+    const { file, files, timestamp, ...rest } = serialized;
+    const payload: AlertPayload = { ...rest, timestamp: new Date(timestamp) };
+
+    const parts = files || (file ? [file] : []);
+    if (parts.length) {
+      payload.files = parts.map(({ content, ...part }) => ({
+        ...this.fileCreator.describeFile(this.fileCreator.restoreFile(part.name, Buffer.from(content, 'base64')), part.formatInfo),
+        ...part
+      }));
+      payload.file = payload.files[0];
+    }
+
+    return payload;
+  }
+}
+
+// ============================================
+// 22. SCOPE & BREADCRUMBS (per async context)
+// ============================================
+interface Breadcrumb {
+  message: string;
+  category?: string;
+  level?: 'debug' | 'info' | 'warning' | 'error';
+  data?: Record<string, any>;
+  timestamp?: string;
+}
+
+interface AlertUser {
+  id?: string | number;
+  email?: string;
+  username?: string;
+  [key: string]: any;
+}
+
+/**
+ * Everything known about "where we are" when an alert fires
+ */
+interface ScopeSnapshot {
+  user?: AlertUser;
+  tags: Record<string, string>;
+  contexts: Record<string, Record<string, any>>;
+  breadcrumbs: Breadcrumb[];
+}
+
+interface ScopeOptions {
+  // Ring buffer size (default: 50)
+  maxBreadcrumbs?: number;
+  // Breadcrumbs rendered in the Slack message (default: 10)
+  breadcrumbsInMessage?: number;
+  // Bundle the scope into the attached JSON file (default: false)
+  attachToFile?: boolean;
+}
+
+function cloneScope(scope: ScopeSnapshot): ScopeSnapshot {
+  return {
+    user: scope.user ? { ...scope.user } : undefined,
+    tags: { ...scope.tags },
+    contexts: { ...scope.contexts },
+    breadcrumbs: [...scope.breadcrumbs]
+  };
+}
+
+/**
+ * Global scope plus isolated per-request scopes via AsyncLocalStorage,
+ * so concurrent requests never see each other's breadcrumbs
+ */
+class ScopeManager {
+  private storage = new AsyncLocalStorage<ScopeSnapshot>();
+  private globalScope: ScopeSnapshot = { tags: {}, contexts: {}, breadcrumbs: [] };
+
+  // Read on every breadcrumb, so init() and reset() apply straight away
+  constructor(private maxBreadcrumbs: () => number) { }
+
+  private current(): ScopeSnapshot {
+    return this.storage.getStore() || this.globalScope;
+  }
+
+  /**
+   * Run `callback` in a fresh scope that starts as a copy of the current one
+   */
+  run<T>(callback: () => T): T {
+    return this.storage.run(cloneScope(this.current()), callback);
+  }
+
+  addBreadcrumb(breadcrumb: Breadcrumb): void {
+    const scope = this.current();
+    scope.breadcrumbs.push({ ...breadcrumb, timestamp: breadcrumb.timestamp || new Date().toISOString() });
+
+    const max = this.maxBreadcrumbs();
+    if (scope.breadcrumbs.length > max) {
+      scope.breadcrumbs.splice(0, scope.breadcrumbs.length - max);
     }
+  }
 
-    // Clean the text
-    const cleanedText = text.trim();
+  setUser(user: AlertUser | null): void {
+    this.current().user = user || undefined;
+  }
 
-    // For CSV conversion: Return as array of objects with line content
-    const lines = cleanedText.split('\n');
+  setTag(key: string, value: string): void {
+    this.current().tags[key] = String(value);
+  }
 
-    // If it's a simple multi-line text, create array of objects
-    if (lines.length > 1) {
-      return lines.map((line, index) => ({
-        lineNumber: index + 1,
-        content: line.trim(),
-        characterCount: line.length
-      }));
+  setContext(name: string, context: Record<string, any> | null): void {
+    const scope = this.current();
+    if (context) {
+      scope.contexts[name] = { ...context };
+    } else {
+      delete scope.contexts[name];
+    }
+  }
+
+  /**
+   * Copy of the current scope, taken when the alert is raised
+   */
+  snapshot(): ScopeSnapshot {
+    return cloneScope(this.current());
+  }
+}
+
+/**
+ * Slack blocks for user, tags and the most recent breadcrumbs
+ */
+function buildScopeBlocks(scope: ScopeSnapshot, breadcrumbLimit: number): any[] {
+  const blocks: any[] = [];
+
+  const details: string[] = [];
+  if (scope.user) {
+    const { id, email, username } = scope.user;
+    details.push(`*User:* ${[id, username, email].filter(Boolean).join(' · ') || 'unknown'}`);
+  }
+  const tags = Object.entries(scope.tags);
+  if (tags.length > 0) {
+    details.push(`*Tags:* ${tags.map(([key, value]) => `\`${key}=${value}\``).join(' ')}`);
+  }
+  if (details.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: details.map(text => ({ type: 'mrkdwn', text }))
+    });
+  }
+
+  const breadcrumbs = scope.breadcrumbs.slice(-breadcrumbLimit);
+  if (breadcrumbs.length > 0) {
+    const lines = breadcrumbs.map(crumb => {
+      const time = crumb.timestamp ? new Date(crumb.timestamp).toLocaleTimeString() : '';
+      const category = crumb.category ? `[${crumb.category}] ` : '';
+      return `\`${time}\` ${category}${crumb.message}`;
+    });
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*Breadcrumbs:*\n${lines.join('\n')}`.substring(0, 3000)
+      }
+    });
+  }
+
+  return blocks;
+}
+
+// ============================================
+// 23. STACK TRACES (parsing and source maps)
+// ============================================
+interface StackTraceOptions {
+  // Resolve compiled frames through local .map files (default: true)
+  sourceMaps?: boolean;
+  // In-app frames shown in the message (default: 5)
+  frames?: number;
+  // Put the full resolved trace into the attachment (default: true)
+  attachToFile?: boolean;
+}
+
+interface StackFrame {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  // Not node_modules, Node internals or native code
+  inApp: boolean;
+  // Where the frame pointed before its source map moved it
+  generated?: { file: string; line: number; column: number };
+}
+
+// "at fn (file:line:column)", "at file:line:column", "at async fn (...)", "at fn (native)"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \((.+?)(?::(\d+):(\d+))?\)|(.+?):(\d+):(\d+))$/;
+
+function isInApp(file: string): boolean {
+  return !/[\\/]node_modules[\\/]/.test(file)
+    && !/^(node:|internal[\\/])/.test(file)
+    && !file.startsWith('<');
+}
+
+/**
+ * Structured frames from a V8 stack trace, top first. Lines that are not frames
+ * (the message, "... N more") are skipped.
+ */
+function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = FRAME_PATTERN.exec(line);
+    if (!match) continue;
+
+    const [, name, location, line1, column1, bareFile, line2, column2] = match;
+    let file = location ?? bareFile;
+    // eval frames carry no useful position of their own
+    if (file.startsWith('eval at ')) file = '<eval>';
+    if (file.startsWith('file://')) file = fileURLToPath(file);
+
+    const lineNumber = line1 ?? line2;
+    const columnNumber = column1 ?? column2;
+    frames.push({
+      function: name?.replace(/^async /, ''),
+      file,
+      line: lineNumber ? Number(lineNumber) : undefined,
+      column: columnNumber ? Number(columnNumber) : undefined,
+      // Native and Promise.all frames have no position
+      inApp: lineNumber !== undefined && isInApp(file)
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * One frame the way V8 prints it, with paths under the working directory shortened
+ */
+function formatFrame(frame: StackFrame): string {
+  let file = frame.file || '<unknown>';
+  if (path.isAbsolute(file) && file.startsWith(process.cwd() + path.sep)) {
+    file = path.relative(process.cwd(), file);
+  }
+
+  const location = frame.line !== undefined ? `${file}:${frame.line}:${frame.column ?? 0}` : file;
+  return frame.function ? `at ${frame.function} (${location})` : `at ${location}`;
+}
+
+/**
+ * The stack's message lines followed by `frames`, ready to replace error.stack
+ */
+function formatStack(stack: string, frames: StackFrame[]): string {
+  const lines = stack.split('\n');
+  const firstFrame = lines.findIndex(line => /^\s*at /.test(line));
+  const header = firstFrame === -1 ? lines : lines.slice(0, firstFrame);
+  return [...header, ...frames.map(frame => `    ${formatFrame(frame)}`)].join('\n');
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid character "${char}" in source map mappings`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+interface SourceMapData {
+  sources: string[];
+  // Per generated line: [generatedColumn, sourceIndex, sourceLine, sourceColumn], by column
+  lines: number[][][];
+}
+
+/**
+ * Decode the "mappings" field of a v3 source map (all positions 0-based)
+ */
+function decodeMappings(mappings: string): number[][][] {
+  let source = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  return mappings.split(';').map(line => {
+    let column = 0;
+    const segments: number[][] = [];
+
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+      const values = decodeVlq(segment);
+      column += values[0];
+      // One-value segments map to nothing
+      if (values.length < 4) continue;
+
+      source += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      segments.push([column, source, sourceLine, sourceColumn]);
+    }
+
+    return segments.sort((a, b) => a[0] - b[0]);
+  });
+}
+
+/**
+ * Maps compiled frames back to their sources through .map files next to
+ * (or referenced by, or inlined in) the compiled file. Maps are read once.
+ */
+class SourceMapResolver {
+  private maps = new Map<string, Promise<SourceMapData | null>>();
+
+  constructor(private maxMaps: number = 100) { }
+
+  async resolve(frames: StackFrame[]): Promise<StackFrame[]> {
+    return Promise.all(frames.map(frame => this.resolveFrame(frame)));
+  }
+
+  clear(): void {
+    this.maps.clear();
+  }
+
+  private async resolveFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.file || frame.line === undefined || frame.column === undefined || !path.isAbsolute(frame.file)) {
+      return frame;
+    }
+
+    const map = await this.load(frame.file);
+    const segments = map?.lines[frame.line - 1];
+    if (!map || !segments?.length) return frame;
+
+    // Last segment starting at or before the column
+    const column = frame.column - 1;
+    let found: number[] | undefined;
+    for (const segment of segments) {
+      if (segment[0] > column) break;
+      found = segment;
+    }
+    if (!found || map.sources[found[1]] === undefined) return frame;
+
+    const file = map.sources[found[1]];
+    return {
+      ...frame,
+      file,
+      line: found[2] + 1,
+      column: found[3] + 1,
+      inApp: isInApp(file),
+      generated: { file: frame.file, line: frame.line, column: frame.column }
+    };
+  }
+
+  private load(file: string): Promise<SourceMapData | null> {
+    let pending = this.maps.get(file);
+    if (!pending) {
+      pending = this.read(file).catch(() => null);
+      this.maps.set(file, pending);
+      // Oldest first
+      if (this.maps.size > this.maxMaps) {
+        this.maps.delete(this.maps.keys().next().value!);
+      }
+    }
+    return pending;
+  }
+
+  private async read(file: string): Promise<SourceMapData | null> {
+    const code = await fs.promises.readFile(file, 'utf8');
+    const references = Array.from(code.matchAll(/\/\/[#@] sourceMappingURL=(\S+)/g));
+    const reference = references.length ? references[references.length - 1][1] : undefined;
+
+    let text: string;
+    let mapFile = `${file}.map`;
+    if (reference?.startsWith('data:')) {
+      const [meta, data] = reference.substring(5).split(',', 2);
+      text = meta.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      mapFile = file;
+    } else {
+      if (reference) mapFile = path.resolve(path.dirname(file), decodeURIComponent(reference));
+      text = await fs.promises.readFile(mapFile, 'utf8');
+    }
+
+    const map = JSON.parse(text);
+    // Index maps (with "sections") are not supported
+    if (map.version !== 3 || typeof map.mappings !== 'string' || !Array.isArray(map.sources)) {
+      return null;
+    }
+
+    const root = map.sourceRoot || '';
+    return {
+      sources: map.sources.map((source: string) => /^[a-z][\w+.-]*:/i.test(root + source)
+        ? root + source
+        : path.resolve(path.dirname(mapFile), root, source)),
+      lines: decodeMappings(map.mappings)
+    };
+  }
+}
+
+// ============================================
+// 24. MESSAGE TEMPLATES (Block Kit layouts per severity)
+// ============================================
+type BuiltInTemplate = 'default' | 'compact' | 'detailed' | 'runbook';
+
+/**
+ * Everything a template can show. `parts` are the blocks of the default
+ * layout, for builders that only want to rearrange or extend it.
+ */
+interface TemplateContext {
+  severity: Severity;
+  emoji: string;
+  color: string;
+  // Scrubbed, not truncated
+  message: string;
+  stack: string;
+  // "at ..." lines of the stack, top first
+  frames: string[];
+  // The same frames, parsed (and resolved through source maps with stackTrace on)
+  stackFrames: StackFrame[];
+  errorClass?: string;
+  comment?: string;
+  tags: Record<string, string>;
+  user?: AlertUser;
+  environment?: string;
+  release?: string;
+  serviceName?: string;
+  serverName?: string;
+  // Configured and per-alert links, placeholders already filled in
+  links: Record<string, string>;
+  files: AttachedFile[];
+  // Name, format and size of the attachment as mrkdwn
+  fileInfo?: string;
+  timestamp: Date;
+  parts: {
+    header: any;
+    error: any;
+    // Top in-app frames, with stackTrace on
+    stack?: any;
+    file?: any;
+    comment?: any;
+    scope: any[];
+    time: any;
+  };
+}
+
+type BlockBuilder = (context: TemplateContext) => any[];
+
+// A built-in name, a builder, or Block Kit JSON with {{placeholders}}
+type MessageTemplate = BuiltInTemplate | BlockBuilder | any[];
+
+type SeverityTemplates = Partial<Record<Severity, MessageTemplate>>;
+
+const BUILT_IN_TEMPLATES: BuiltInTemplate[] = ['default', 'compact', 'detailed', 'runbook'];
+
+// Frames shown by the detailed template before the rest are collapsed
+const DETAILED_FRAMES = 5;
+
+function mrkdwn(text: string): any {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+const TEMPLATE_BUILDERS: Record<BuiltInTemplate, BlockBuilder> = {
+  default: ({ parts }) => [
+    parts.header,
+    parts.error,
+    ...(parts.stack ? [parts.stack] : []),
+    ...(parts.file ? [parts.file] : []),
+    ...(parts.comment ? [parts.comment] : []),
+    ...parts.scope,
+    parts.time
+  ],
+
+  compact: context => {
+    const details = [
+      context.errorClass && `\`${context.errorClass}\``,
+      context.message.split('\n')[0].substring(0, 200),
+      context.environment && `· ${context.environment}`,
+      context.files.length > 0 && `· 📎 ${context.files.map(file => file.name).join(', ')}`,
+      context.comment && `· ${context.comment.substring(0, 200)}`
+    ].filter(Boolean);
+    return [mrkdwn(`${context.emoji} *${context.severity}* ${details.join(' ')}`)];
+  },
+
+  detailed: context => {
+    const { parts, frames } = context;
+    const fields = [
+      `*Severity:*\n${context.emoji} ${context.severity}`,
+      context.errorClass && `*Error class:*\n${context.errorClass}`,
+      context.environment && `*Environment:*\n${context.environment}`,
+      context.serviceName && `*Service:*\n${context.serviceName}`,
+      context.release && `*Release:*\n${context.release}`,
+      context.serverName && `*Host:*\n${context.serverName}`,
+      `*Time:*\n${context.timestamp.toLocaleString()}`,
+      ...Object.entries(context.tags).map(([key, value]) => `*${key}:*\n${value}`)
+    ].filter(Boolean).slice(0, 10);
+
+    const blocks: any[] = [
+      parts.header,
+      { type: 'section', fields: fields.map(text => ({ type: 'mrkdwn', text })) },
+      parts.error
+    ];
+
+    if (frames.length > 0) {
+      const hidden = frames.length - DETAILED_FRAMES;
+      blocks.push(mrkdwn(`*Stack:*\n\`\`\`${frames.slice(0, DETAILED_FRAMES).join('\n')}\`\`\``.substring(0, 3000)));
+      if (hidden > 0) {
+        blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `…and ${hidden} more frame${hidden === 1 ? '' : 's'}` }] });
+      }
+    }
+
+    const links = Object.entries(context.links);
+    if (links.length > 0) {
+      blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: links.map(([name, url]) => `<${url}|${name}>`).join(' · ') }] });
+    }
+
+    return [
+      ...blocks,
+      ...(parts.file ? [parts.file] : []),
+      ...(parts.comment ? [parts.comment] : []),
+      ...parts.scope
+    ];
+  },
+
+  runbook: context => {
+    const { parts, links } = context;
+    const blocks: any[] = [parts.header];
+
+    if (links.runbook) {
+      blocks.push({
+        ...parts.error,
+        accessory: { type: 'button', text: { type: 'plain_text', text: '📖 Runbook', emoji: true }, url: links.runbook, style: 'primary' }
+      });
+    } else {
+      blocks.push(parts.error, { type: 'context', elements: [{ type: 'mrkdwn', text: ':warning: No runbook linked for this alert' }] });
+    }
+
+    const others = Object.entries(links).filter(([name]) => name !== 'runbook').slice(0, 25);
+    if (others.length > 0) {
+      blocks.push({
+        type: 'actions',
+        elements: others.map(([name, url]) => ({ type: 'button', text: { type: 'plain_text', text: name, emoji: true }, url }))
+      });
+    }
+
+    return [
+      ...blocks,
+      ...(parts.file ? [parts.file] : []),
+      ...(parts.comment ? [parts.comment] : []),
+      parts.time
+    ];
+  }
+};
+
+/**
+ * Values reachable from {{placeholders}} - nested ones with dots, e.g. {{tags.service}}
+ */
+function placeholderValues(context: TemplateContext): Record<string, any> {
+  return {
+    severity: context.severity,
+    emoji: context.emoji,
+    color: context.color,
+    error: context.message.substring(0, 1000),
+    message: context.message,
+    stack: context.stack,
+    frames: context.frames.join('\n'),
+    frame: context.frames,
+    errorClass: context.errorClass || '',
+    comment: context.comment || '',
+    tags: context.tags,
+    user: context.user || {},
+    environment: context.environment || '',
+    release: context.release || '',
+    serviceName: context.serviceName || '',
+    serverName: context.serverName || '',
+    links: context.links,
+    file: context.fileInfo || '',
+    time: context.timestamp.toLocaleString(),
+    timestamp: context.timestamp.toISOString()
+  };
+}
+
+function fillPlaceholders(text: string, values: Record<string, any>, encode: boolean = false): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    const value = name.split('.').reduce((current: any, key) => current?.[key], values);
+    if (value === undefined || value === null || typeof value === 'object') return '';
+    return encode ? encodeURIComponent(String(value)) : String(value);
+  });
+}
+
+/**
+ * Links with their {{placeholders}} filled in, URL-encoded
+ */
+function resolveLinks(links: Record<string, string>, context: Omit<TemplateContext, 'links'>): Record<string, string> {
+  const values = placeholderValues({ ...context, links: {} });
+  const resolved: Record<string, string> = {};
+  for (const [name, url] of Object.entries(links)) {
+    resolved[name] = fillPlaceholders(url, values, true);
+  }
+  return resolved;
+}
+
+/**
+ * Fill every string in a JSON template, then drop text blocks that came out
+ * empty - so optional placeholders like {{comment}} need no special casing
+ */
+function fillTemplate(template: any[], values: Record<string, any>): any[] {
+  const fill = (node: any): any => {
+    if (typeof node === 'string') return fillPlaceholders(node, values);
+    if (Array.isArray(node)) return node.map(fill);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fill(value)]));
+    }
+    return node;
+  };
+
+  const isBlank = (element: any) => element?.text !== undefined && !String(element.text.text ?? element.text).trim();
+
+  return fill(template)
+    .map((block: any) => block.type === 'context'
+      ? { ...block, elements: (block.elements || []).filter((element: any) => !(element.type === 'mrkdwn' || element.type === 'plain_text') || element.text.trim()) }
+      : block)
+    .filter((block: any) => !(block.type === 'context' && block.elements.length === 0))
+    .filter((block: any) => !(block.type === 'section' && !block.fields && !block.accessory && isBlank(block)));
+}
+
+function renderTemplate(template: MessageTemplate, context: TemplateContext): any[] {
+  if (typeof template === 'function') {
+    const blocks = template(context);
+    if (!Array.isArray(blocks)) {
+      throw new Error('error-notifier: A template builder must return an array of blocks');
+    }
+    return blocks;
+  }
+  if (Array.isArray(template)) {
+    return fillTemplate(template, placeholderValues(context));
+  }
+  return TEMPLATE_BUILDERS[template](context);
+}
+
+// ============================================
+// 25. ALERT NOTIFIER (fans out to all transports)
+// ============================================
+/**
+ * Outcome of a single transport for a single alert
+ */
+interface TransportResult {
+  transport: string;
+  ok: boolean;
+  receipt?: DeliveryReceipt;
+  error?: Error;
+  // Failed, but saved to the retry outbox
+  queuedForRetry?: boolean;
+}
+
+/**
+ * What happened to an alert - resolved by alert.high/medium/low
+ */
+interface AlertResult {
+  status: 'sent' | 'partial' | 'failed' | 'suppressed' | 'rate-limited' | 'digested' | 'not-initialized';
+  severity: Severity;
+  // Slack message details, when Slack accepted the message
+  ts?: string;
+  channel?: string;
+  fileId?: string;
+  transports: TransportResult[];
+  errors: Error[];
+}
+
+interface QueuedAlert {
+  severity: Severity;
+  error: Error | string;
+  options: AlertOptions;
+  // Every channel the alert is routed to
+  targets: RouteTarget[];
+  fingerprint?: string;
+  scope: ScopeSnapshot;
+  // Settles the caller's promise once the queued alert is finally sent
+  resolve: (result: AlertResult) => void;
+}
+
+interface RateLimitDigest {
+  timer: NodeJS.Timeout;
+  total: number;
+  highestSeverity: Severity;
+  options: AlertOptions;
+  messages: Map<string, { severity: Severity; count: number }>;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+class AlertNotifier {
+  private fileCreator: FileCreator;
+  private attachments: AttachmentProcessor;
+  private slackTransport: SlackTransport;
+  private transports: Transport[];
+  private fingerprints: FingerprintStore;
+  private alertStates = new AlertStateStore();
+  private rateLimiter: RateLimiter | null = null;
+  private queue: QueuedAlert[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
+  private digests = new Map<string, RateLimitDigest>();
+  private outbox: Outbox | null = null;
+  private digestScheduler: DigestScheduler | null = null;
+  private inFlight = new Set<Promise<unknown>>();
+
+  constructor(private config: ConfigStore, private emitter: EventEmitter) {
+    this.fileCreator = new FileCreator(config);
+    this.attachments = new AttachmentProcessor(config);
+    this.slackTransport = new SlackTransport(config);
+    this.transports = [this.slackTransport];
+    this.fingerprints = new FingerprintStore(entry => {
+      this.track(this.summarizeRepeats(entry).catch(() => { }));
+    });
+
+    // Cleanup old files on startup
+    this.fileCreator.cleanupOldFiles().catch(() => { });
+  }
+
+  /**
+   * Open the retry outbox (if enabled) once configuration is known
+   */
+  start(): void {
+    const retryOptions = this.config.getRetryOptions();
+    if (retryOptions && !this.outbox) {
+      const tempDir = this.config.getSpool().inMemory ? null : this.config.getTempDir();
+      this.outbox = new Outbox(this.fileCreator, tempDir, retryOptions,
+        (entry, payload) => this.retryDelivery(entry, payload), this.emitter, this.config.getLog());
+    }
+
+    const digestOptions = this.config.getDigestOptions();
+    if (digestOptions && !this.digestScheduler) {
+      this.digestScheduler = new DigestScheduler(digestOptions, bucket => this.sendDigest(bucket));
+    }
+  }
+
+  /**
+   * Pick up a replaced configuration (config file reload). Snoozes, threads,
+   * dedupe windows and queued alerts carry over - only what depends on the
+   * options is rebuilt.
+   */
+  reconfigure(): void {
+    // Fresh budgets - anything still queued is checked against them
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.rateLimiter = null;
+    if (this.getRateLimiter()) {
+      this.scheduleDrain();
+    } else {
+      const pending = this.queue;
+      this.queue = [];
+      pending.forEach(item => this.deliver(item.severity, item.error, item.options, item.fingerprint, item.scope).then(item.resolve));
+    }
+
+    this.digestScheduler?.flushAll();
+    this.digestScheduler?.stop();
+    this.digestScheduler = null;
+
+    const retryOptions = this.config.getRetryOptions();
+    if (retryOptions) {
+      this.outbox?.setOptions(retryOptions);
+    } else {
+      this.outbox?.stop();
+      this.outbox = null;
+    }
+
+    this.start();
+  }
+
+  /**
+   * Stop every timer and drop anything still buffered (reset / close)
+   */
+  stop(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+
+    const dropped = new Error('error-notifier: Alerter was reset before this alert was sent');
+    this.queue.forEach(item => item.resolve({ status: 'failed', severity: item.severity, transports: [], errors: [dropped] }));
+    this.queue = [];
+
+    this.digests.forEach(digest => clearTimeout(digest.timer));
+    this.digests.clear();
+
+    this.digestScheduler?.stop();
+    this.digestScheduler = null;
+    this.outbox?.stop();
+    this.outbox = null;
+    this.fingerprints.clear();
+    this.alertStates.clear();
+    this.slackTransport.clearThreads();
+    this.rateLimiter = null;
+  }
+
+  getOutbox(): Outbox | null {
+    return this.outbox;
+  }
+
+  cleanupTempFiles(maxAgeHours?: number): Promise<number> {
+    return this.fileCreator.cleanupOldFiles(maxAgeHours);
+  }
+
+  /**
+   * Send an alert - the promise never rejects, failures are reported in the result
+   */
+  notify(
+    severity: Severity,
+    error: Error | string,
+    options: AlertOptions = {}
+  ): Promise<AlertResult> {
+    return this.track(this.process(severity, error, options));
+  }
+
+  /**
+   * Wait for every in-flight delivery. Resolves true if all settled within the timeout.
+   */
+  async flush(timeoutMs: number = 10000): Promise<boolean> {
+    // Nothing held back should be lost on shutdown
+    Array.from(this.digests.keys()).forEach(channel => this.flushDigest(channel));
+    this.digestScheduler?.flushAll();
+    this.fingerprints.closeAll();
+
+    return this.settle(timeoutMs);
+  }
+
+  /**
+   * Wait for in-flight deliveries without sending what is held back (dedupe
+   * windows, digests). Resolves true if all settled within the timeout.
+   */
+  async settle(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
+    // Settling one delivery can start another (queue drains, summaries) - loop until idle
+    while (this.inFlight.size > 0 || this.queue.length > 0) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = await Promise.race([
+        Promise.allSettled(Array.from(this.inFlight)).then(() => false),
+        new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), remaining); })
+      ]);
+      clearTimeout(timer);
+
+      if (timedOut) return false;
+      if (this.inFlight.size === 0 && this.queue.length > 0) {
+        // Only rate-limited alerts left - give the drain timer a chance
+        await new Promise(resolve => setTimeout(resolve, Math.min(250, Math.max(0, deadline - Date.now()))));
+      }
+    }
+
+    return true;
+  }
+
+  private track<T>(promise: Promise<T>): Promise<T> {
+    this.inFlight.add(promise);
+    promise.then(() => this.inFlight.delete(promise), () => this.inFlight.delete(promise));
+    return promise;
+  }
+
+  private async process(
+    severity: Severity,
+    error: Error | string,
+    options: AlertOptions
+  ): Promise<AlertResult> {
+    let fingerprint: string | undefined;
+
+    // Taken now, while we are still in the caller's async context
+    const scope = this.config.getScopes().snapshot();
+
+    // e.g. LOW alerts are not wanted from development
+    if (!this.config.getEnvironmentSeverities().includes(severity)) {
+      this.config.getLog().debug('Dropped alert for this environment', { severity, environment: this.config.getEnvironment() });
+      return { status: 'suppressed', severity, transports: [], errors: [] };
+    }
+
+    // Someone pressed "Snooze" on an identical alert
+    if (this.config.getInteractiveOptions()) {
+      fingerprint = this.fingerprintOf(severity, error, options);
+      if (this.alertStates.isSnoozed(fingerprint)) {
+        this.config.getLog().debug('Suppressed snoozed alert', { severity, fingerprint });
+        return { status: 'suppressed', severity, transports: [], errors: [] };
+      }
+    }
+
+    // Low-priority alerts wait for the next scheduled digest of each channel they are routed to
+    if (this.digestScheduler?.accepts(severity)) {
+      const message = error instanceof Error ? error.message : error;
+      const entry: DigestEntry = {
+        time: new Date(),
+        severity,
+        message,
+        fingerprint: options.fingerprint || computeFingerprint(severity, error, 3),
+        comment: options.comment
+      };
+      this.routeTargets(severity, error, options, scope).forEach(target => {
+        this.digestScheduler!.add(target.channelName, entry, target);
+      });
+      return { status: 'digested', severity, transports: [], errors: [] };
     }
 
-    // If it's a single line, return as is
-    return {
-      content: cleanedText,
-      timestamp: new Date().toISOString(),
-      length: cleanedText.length
-    };
+    // Suppress repeats of an alert that is already in the current window
+    const dedupe = this.config.getDedupeOptions();
+    if (dedupe) {
+      fingerprint = this.fingerprintOf(severity, error, options);
+      if (!this.fingerprints.hit(fingerprint, dedupe.windowMs)) {
+        this.config.getLog().debug('Suppressed duplicate alert', { severity, fingerprint });
+        return { status: 'suppressed', severity, transports: [], errors: [] };
+      }
+    }
+
+    // Keep within the per-severity / per-channel budget
+    const rateLimiter = this.getRateLimiter();
+    if (rateLimiter) {
+      const targets = this.routeTargets(severity, error, options, scope);
+      if (!rateLimiter.tryAcquire(severity, channelNames(targets))) {
+        return new Promise(resolve => {
+          this.handleOverflow({ severity, error, options, targets, fingerprint, scope, resolve });
+        });
+      }
+    }
+
+    return this.deliver(severity, error, options, fingerprint, scope);
   }
 
   /**
-   * Create text file (.txt)
+   * The channels Slack will post the alert to, so budgets and digests are kept per routed channel
    */
-  private createTextFile(filePath: string, data: any): void {
-    let content: string;
+  private routeTargets(severity: Severity, error: Error | string, options: AlertOptions, scope: ScopeSnapshot): RouteTarget[] {
+    // Rules see the same (redacted) message as at delivery
+    const redactor = this.config.getRedactor();
+    const details = error instanceof Error ? serializeError(error) : undefined;
+    const message = details
+      ? describeError(redactor ? redactor.redact(details) : details)
+      : redactor ? redactor.redactString(error as string, 'message') : error as string;
+
+    return resolveRouteTargets(this.config, {
+      severity,
+      message,
+      errorClass: error instanceof Error ? error.constructor.name : undefined,
+      scope: redactor ? redactor.redact(scope, 'scope') : scope,
+      options,
+      metadata: this.config.getMetadata()
+    });
+  }
 
-    if (typeof data === 'string') {
-      content = data;
-    } else if (data instanceof Error) {
-      content = `ERROR: ${data.message}\n\nSTACK TRACE:\n${data.stack || 'No stack trace'}`;
-    } else if (typeof data === 'object') {
-      content = JSON.stringify(data, null, 2);
-    } else {
-      content = String(data);
+  /**
+   * Lay the alert out with its template - a broken custom template falls back to the default
+   */
+  private renderBlocks(severity: Severity, options: AlertOptions, context: Omit<TemplateContext, 'links'>): any[] {
+    const links = resolveLinks({ ...this.config.getLinks(), ...options.links }, context);
+    const full: TemplateContext = { ...context, links };
+
+    const template = options.template ?? this.config.getTemplate(severity);
+    try {
+      return renderTemplate(template, full);
+    } catch (error) {
+      this.emitter.emit(EVENTS.INTERNAL_ERROR,
+        new Error(`error-notifier: Template failed, used the default layout: ${messageOf(error)}`));
+      return renderTemplate('default', full);
     }
+  }
 
-    fs.writeFileSync(filePath, content);
+  private fingerprintOf(severity: Severity, error: Error | string, options: AlertOptions): string {
+    return options.fingerprint || computeFingerprint(severity, error, this.config.getDedupeOptions()?.stackFrames ?? 3);
   }
 
   /**
-   * Create JSON file (.json)
+   * Build the alert once and fan it out to every transport
    */
-  private createJsonFile(filePath: string, data: any): void {
-    let jsonData: any;
+  private async deliver(
+    severity: Severity,
+    error: Error | string,
+    options: AlertOptions,
+    fingerprint?: string,
+    scope?: ScopeSnapshot
+  ): Promise<AlertResult> {
+    let filePaths: string[] = [];
 
-    if (typeof data === 'string') {
-      try {
-        // Try to parse if it's JSON string
-        jsonData = JSON.parse(data);
-      } catch {
-        // If not JSON, wrap in object
-        jsonData = { content: data, timestamp: new Date().toISOString() };
+    try {
+      // Format error message - with its causes, aggregated errors and custom fields
+      let details = error instanceof Error ? serializeError(error) : undefined;
+      let errorMessage = details ? describeError(details) : error as string;
+      let stackTrace = error instanceof Error ? error.stack || '' : '';
+
+      const scopeOptions = this.config.getScopeOptions();
+      if (scope && scopeOptions.attachToFile) {
+        options = this.attachScopeToFile(options, scope);
       }
-    } else if (data instanceof Error) {
-      jsonData = {
-        error: data.message,
-        stack: data.stack,
-        timestamp: new Date().toISOString(),
-        type: 'Error'
-      };
-    } else {
-      jsonData = data;
-    }
 
-    // Add metadata
-    const finalData = {
-      ...jsonData,
-      _metadata: {
-        generatedAt: new Date().toISOString(),
-        source: 'error-notifier',
-        format: 'json'
+      // Resolve compiled frames back to the sources before anything shows the stack
+      const stackOptions = this.config.getStackTraceOptions();
+      let stackFrames = stackTrace ? parseStack(stackTrace) : [];
+      if (stackOptions && stackFrames.length > 0) {
+        if (stackOptions.sourceMaps) {
+          stackFrames = await sourceMaps.resolve(stackFrames);
+        }
+        stackTrace = formatStack(stackTrace, stackFrames);
+        if (stackOptions.attachToFile) {
+          options = this.attachStackToFile(options, stackTrace, stackFrames);
+        }
       }
-    };
 
-    fs.writeFileSync(filePath, JSON.stringify(finalData, null, 2));
-  }
+      // Scrub before anything is rendered, written to disk or sent
+      const redactor = this.config.getRedactor();
+      if (redactor) {
+        if (details) {
+          details = redactor.redact(details);
+          errorMessage = describeError(details);
+        } else {
+          errorMessage = redactor.redactString(errorMessage, 'message');
+        }
+        stackTrace = redactor.redactString(stackTrace, 'stack');
+        options = {
+          ...options,
+          comment: options.comment && redactor.redactString(options.comment, 'comment'),
+          fileData: redactor.redact(options.fileData)
+        };
+        scope = scope && redactor.redact(scope, 'scope');
+      }
 
-  /**
-   * Create CSV file (.csv)
-   */
-  private createCsvFile(filePath: string, data: any, headers?: string[]): void {
-    let csvContent = '';
+      // Create message blocks
+      let color = '#36a64f'; // Green for LOW
+      let emoji = 'ℹ️';
 
-    if (Array.isArray(data)) {
-      // Array of objects or arrays
-      if (data.length === 0) {
-        csvContent = 'No data';
-      } else if (typeof data[0] === 'object' && !Array.isArray(data[0])) {
-        // Array of objects - FLATTEN nested objects
-        const allHeaders = headers || this.extractHeadersFromObjects(data);
-        csvContent += allHeaders.join(',') + '\n';
-
-        data.forEach((item: any) => {
-          const row = allHeaders.map(header => {
-            const value = this.getNestedValue(item, header);
-            // Handle commas, quotes, and newlines in CSV
-            if (value === null || value === undefined) return '';
-
-            let stringValue: string;
-            if (typeof value === 'object') {
-              // Convert nested objects/arrays to JSON strings
-              stringValue = JSON.stringify(value);
-            } else {
-              stringValue = String(value);
-            }
+      if (severity === 'MEDIUM') {
+        color = '#ffcc00'; // Yellow
+        emoji = '⚠️';
+      } else if (severity === 'HIGH') {
+        color = '#ff0000'; // Red
+        emoji = '🚨';
+      }
 
-            if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-              return `"${stringValue.replace(/"/g, '""')}"`;
-            }
-            return stringValue;
-          });
-          csvContent += row.join(',') + '\n';
+      // Add file info if fileData is provided
+      let files: AttachedFile[] | undefined;
+      let fileInfo: string | undefined;
+
+      if (options.fileData !== undefined) {
+        // Create file from data with optional conversion
+        const filePath = await this.fileCreator.createFileFromData(options.fileData, {
+          fileName: options.fileName,
+          fileType: options.fileType,
+          from: options.from,
+          to: options.to,
+          csvHeaders: options.csvHeaders,
+          csv: options.csv
         });
-      } else {
-        // Array of arrays or primitives
-        if (headers) {
-          csvContent += headers.join(',') + '\n';
+        filePaths = [filePath];
+
+        const fileExtension = path.extname(filePath).substring(1);
+
+        // Cap, split and compress large files (when enabled)
+        const prepared = await this.attachments.prepare(filePath, fileExtension, options.csv?.quote);
+        filePaths = prepared.files.map(part => part.path);
+
+        // Add conversion info if applicable
+        let formatInfo = `*Format:* ${fileExtension.toUpperCase()}`;
+        if (options.from && options.to) {
+          formatInfo = `*Converted:* ${options.from.toUpperCase()} → ${options.to.toUpperCase()}`;
         }
 
-        data.forEach((row: any) => {
-          if (Array.isArray(row)) {
-            const escapedRow = row.map(cell => {
-              const stringCell = String(cell);
-              if (stringCell.includes(',') || stringCell.includes('"') || stringCell.includes('\n')) {
-                return `"${stringCell.replace(/"/g, '""')}"`;
-              }
-              return stringCell;
-            });
-            csvContent += escapedRow.join(',') + '\n';
-          } else {
-            csvContent += String(row) + '\n';
+        files = prepared.files.map(part => ({
+          ...this.fileCreator.describeFile(part.path, formatInfo),
+          compression: prepared.compression && /\.(gz|zip)$/.test(part.name) ? prepared.compression : undefined
+        }));
+
+        const sentKB = (prepared.files.reduce((total, part) => total + part.bytes, 0) / 1024).toFixed(2);
+        const originalKB = (prepared.originalBytes / 1024).toFixed(2);
+        fileInfo = files.length > 1
+          ? `*Attached Files:* ${files.map(part => part.name).join(', ')} (${files.length} parts)`
+          : `*Attached File:* ${files[0].name}`;
+        fileInfo += `\n${formatInfo}`;
+        fileInfo += prepared.compression
+          ? `\n*Size:* ${originalKB} KB → ${sentKB} KB (${prepared.compression})`
+          : `\n*Size:* ${sentKB} KB`;
+        if (prepared.omittedRows) {
+          fileInfo += `\n:warning: *Truncated:* ${prepared.omittedRows} rows omitted`;
+        } else if (prepared.omittedBytes) {
+          fileInfo += `\n:warning: *Truncated:* ${prepared.omittedBytes} bytes omitted`;
+        }
+      }
+
+      // Pieces of the default layout - templates arrange them, or build their own
+      const timestamp = new Date();
+      const metadata = this.config.getMetadata();
+      const origin = describeMetadata(metadata);
+      const parts: TemplateContext['parts'] = {
+        header: {
+          type: 'header',
+          text: {
+            type: 'plain_text',
+            text: `${emoji} ${severity} ALERT`,
+            emoji: true
           }
-        });
+        },
+        error: {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Error:*\n\`\`\`${errorMessage.substring(0, 1000)}\`\`\``
+          }
+        },
+        stack: stackOptions && stackFrames.length > 0 ? this.buildStackBlock(stackFrames, stackOptions.frames) : undefined,
+        file: fileInfo && {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: fileInfo
+          }
+        },
+        // Next to a file it comments on the file, on its own it is a note
+        comment: options.comment && {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: files ? `*Comment:* ${options.comment}` : `*Note:* ${options.comment}`
+          }
+        },
+        // Add user, tags and breadcrumbs
+        scope: scope ? buildScopeBlocks(scope, scopeOptions.breadcrumbsInMessage) : [],
+        // Add timestamp, and where the alert came from
+        time: {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `*Time:* ${timestamp.toLocaleString()}`
+            },
+            ...(origin ? [{ type: 'mrkdwn', text: origin }] : [])
+          ]
+        }
+      };
+
+      const blocks = this.renderBlocks(severity, options, {
+        severity,
+        emoji,
+        color,
+        message: errorMessage,
+        stack: stackTrace,
+        frames: stackTrace.split('\n').map(line => line.trim()).filter(line => line.startsWith('at ')),
+        stackFrames,
+        errorClass: error instanceof Error ? error.constructor.name : undefined,
+        comment: options.comment,
+        tags: scope?.tags || {},
+        user: scope?.user,
+        ...metadata,
+        files: files || [],
+        fileInfo,
+        timestamp,
+        parts
+      });
+
+      const payload: AlertPayload = {
+        severity,
+        message: errorMessage,
+        stack: stackTrace,
+        emoji,
+        color,
+        timestamp,
+        blocks,
+        options,
+        errorClass: error instanceof Error ? error.constructor.name : undefined,
+        scope,
+        file: files?.[0],
+        files,
+        fingerprint: fingerprint || this.fingerprintOf(severity, error, options),
+        metadata
+      };
+
+      // Fan out - one failing transport must not block the others
+      const transports = [...this.transports, ...this.config.getTransports()];
+      const results = await Promise.allSettled(transports.map(transport => transport.send(payload)));
+
+      // Remember where the first occurrence landed so repeats can be summarized there
+      const entry = fingerprint ? this.fingerprints.get(fingerprint) : undefined;
+      if (entry) {
+        entry.payload = payload;
+        const slackResult = results[transports.indexOf(this.slackTransport)];
+        const slackReceipt = slackResult.status === 'fulfilled'
+          ? slackResult.value
+          : (slackResult.reason as DeliveryError)?.receipt;
+        if (slackReceipt?.channel && slackReceipt.ts) {
+          entry.slackRef = { channel: slackReceipt.channel, ts: slackReceipt.ts };
+        }
       }
-    } else if (typeof data === 'object') {
-      // Single object - FLATTEN it
-      const allHeaders = headers || Object.keys(data);
-      csvContent += allHeaders.join(',') + '\n';
-
-      const row = allHeaders.map(header => {
-        const value = this.getNestedValue(data, header);
-        if (value === null || value === undefined) return '';
-
-        let stringValue: string;
-        if (typeof value === 'object') {
-          // Convert nested objects/arrays to JSON strings
-          stringValue = JSON.stringify(value);
-        } else {
-          stringValue = String(value);
+
+      const transportResults = results.map((result, index): TransportResult => {
+        const name = transports[index].name;
+        if (result.status === 'fulfilled') {
+          return { transport: name, ok: true, receipt: result.value || undefined };
         }
 
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
+        const reason = result.reason;
+        const error = reason instanceof Error
+          ? reason
+          : new Error(`${name} transport failed: ${String(reason)}`);
+        this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
+
+        // Keep it for a later attempt instead of losing it
+        let queuedForRetry = false;
+        if (this.outbox) {
+          try {
+            this.outbox.enqueue(name, payload, error);
+            queuedForRetry = true;
+          } catch (outboxError) {
+            this.emitter.emit(EVENTS.INTERNAL_ERROR,
+              new Error(`Could not queue ${name} delivery for retry: ${messageOf(outboxError)}`));
+          }
         }
-        return stringValue;
+
+        return {
+          transport: name,
+          ok: false,
+          receipt: (error as DeliveryError).receipt,
+          error,
+          queuedForRetry
+        };
       });
-      csvContent += row.join(',') + '\n';
-    } else {
-      // Single value
-      const stringValue = String(data);
-      if (headers) {
-        csvContent += headers.join(',') + '\n';
-        csvContent += stringValue + '\n';
-      } else {
-        csvContent = 'Value\n' + stringValue + '\n';
+
+      const succeeded = transportResults.filter(result => result.ok).length;
+      const slackReceipt = transportResults[transports.indexOf(this.slackTransport)].receipt;
+
+      return {
+        status: succeeded === transportResults.length ? 'sent' : succeeded > 0 ? 'partial' : 'failed',
+        severity,
+        ts: slackReceipt?.ts,
+        channel: slackReceipt?.channel,
+        fileId: slackReceipt?.fileId,
+        transports: transportResults,
+        errors: transportResults.filter(result => result.error).map(result => result.error!)
+      };
+    } catch (notifyError) {
+      const error = new Error(`Failed to build alert: ${messageOf(notifyError)}`);
+      this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
+      return { status: 'failed', severity, transports: [], errors: [error] };
+    } finally {
+      // Every transport has had its turn with the file
+      for (const filePath of filePaths) {
+        await this.fileCreator.deleteFile(filePath);
       }
     }
-
-    fs.writeFileSync(filePath, csvContent);
   }
 
   /**
-  * Extract all headers from array of objects (including nested paths)
-  */
-  private extractHeadersFromObjects(objects: any[]): string[] {
-    const headers = new Set<string>();
+   * The top in-app frames (the top frames, if none are in-app)
+   */
+  private buildStackBlock(frames: StackFrame[], count: number): any {
+    const inApp = frames.filter(frame => frame.inApp);
+    const shown = (inApp.length > 0 ? inApp : frames).slice(0, count);
+    let text = `*Stack:*\n\`\`\`${shown.map(formatFrame).join('\n')}\`\`\``;
 
-    objects.forEach(obj => {
-      this.flattenObject(obj).forEach(key => {
-        headers.add(key);
-      });
-    });
+    // Redaction ran on the string form - apply it to these lines as well
+    const redactor = this.config.getRedactor();
+    if (redactor) text = redactor.redactString(text, 'stack');
 
-    return Array.from(headers);
+    return {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: text.substring(0, 3000)
+      }
+    };
   }
 
   /**
-   * Flatten nested object to dot notation
+   * Put the full resolved trace into the attachment - a text file of its own,
+   * or structured frames merged into JSON output
    */
-  private flattenObject(obj: any, prefix: string = ''): string[] {
-    const keys: string[] = [];
-
-    for (const key in obj) {
-      if (obj.hasOwnProperty(key)) {
-        const fullKey = prefix ? `${prefix}.${key}` : key;
+  private attachStackToFile(options: AlertOptions, trace: string, frames: StackFrame[]): AlertOptions {
+    if (options.fileData === undefined) {
+      return { ...options, fileData: trace, fileType: 'txt', fileName: options.fileName || `stack-trace-${Date.now()}` };
+    }
 
-        if (typeof obj[key] === 'object' && obj[key] !== null && !Array.isArray(obj[key])) {
-          // Recursively flatten nested object
-          keys.push(...this.flattenObject(obj[key], fullKey));
-        } else {
-          keys.push(fullKey);
-        }
-      }
+    const producesJson = options.fileType === 'json' || options.to === 'json';
+    if (producesJson && typeof options.fileData === 'object' && options.fileData !== null && !Array.isArray(options.fileData)) {
+      return { ...options, fileData: { ...options.fileData, _stack: frames } };
     }
 
-    return keys;
+    return options;
   }
 
   /**
-   * Get value from nested object using dot notation
+   * Put the scope into the attachment - its own JSON file, or merged into
+   * JSON output next to the _metadata that createJsonFile adds
    */
-  private getNestedValue(obj: any, path: string): any {
-    const keys = path.split('.');
-    let current = obj;
+  private attachScopeToFile(options: AlertOptions, scope: ScopeSnapshot): AlertOptions {
+    if (options.fileData === undefined) {
+      return { ...options, fileData: scope, fileType: 'json' };
+    }
 
-    for (const key of keys) {
-      if (current === null || current === undefined || typeof current !== 'object') {
-        return undefined;
-      }
-      current = current[key];
+    const producesJson = options.fileType === 'json' || options.to === 'json';
+    if (producesJson && typeof options.fileData === 'object' && options.fileData !== null) {
+      return { ...options, fileData: { ...options.fileData, _scope: scope } };
     }
 
-    return current;
+    return options;
   }
 
   /**
-   * Delete file after sending
+   * Re-attempt a delivery loaded from the outbox
    */
-  async deleteFile(filePath: string): Promise<void> {
-    if (!this.config.shouldAutoDeleteFiles()) {
-      console.log(`📁 File deletion disabled: ${filePath}`);
+  private async retryDelivery(entry: OutboxEntry, payload: AlertPayload): Promise<void> {
+    const transport = [...this.transports, ...this.config.getTransports()]
+      .find(candidate => candidate.name === entry.transport);
+    if (!transport) {
+      throw new Error(`No transport named "${entry.transport}" is configured`);
+    }
+
+    if (entry.pendingTargets && transport === this.slackTransport) {
+      // Only the channels the alert did not reach (or whose upload is missing)
+      await this.slackTransport.sendTo(payload, entry.pendingTargets);
       return;
     }
 
-    try {
-      await fs.promises.unlink(filePath);
-      console.log(`🗑️  Deleted file: ${path.basename(filePath)}`);
-    } catch (error) {
-      console.error(`❌ Failed to delete file ${filePath}:`, error);
+    if (entry.receipt && transport === this.slackTransport) {
+      // Message is already in Slack - just finish the upload
+      await this.slackTransport.uploadFile(payload, entry.receipt.channel, entry.receipt.threadTs || entry.receipt.ts);
+      return;
+    }
+
+    await transport.send(payload);
+  }
+
+  private getRateLimiter(): RateLimiter | null {
+    const options = this.config.getRateLimitOptions();
+    if (options && !this.rateLimiter) {
+      this.rateLimiter = new RateLimiter(options);
     }
+    return this.rateLimiter;
   }
 
   /**
-   * Clean up old temp files
+   * Queue, drop or digest an alert that is over budget
    */
-  async cleanupOldFiles(maxAgeHours: number = 24): Promise<void> {
-    const tempDir = this.config.getTempDir();
-    if (!fs.existsSync(tempDir)) return;
+  private handleOverflow(alert: QueuedAlert): void {
+    const options = this.config.getRateLimitOptions()!;
+    const message = alert.error instanceof Error ? alert.error.message : alert.error;
+
+    switch (options.overflow) {
+      case 'drop': {
+        const error = new Error(`Rate limit exceeded: dropped ${alert.severity} alert for ${channelNames(alert.targets).join(', ')} (${message.substring(0, 100)})`);
+        this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
+        alert.resolve({ status: 'rate-limited', severity: alert.severity, transports: [], errors: [error] });
+        break;
+      }
 
-    const files = fs.readdirSync(tempDir);
-    const now = Date.now();
-    const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
+      case 'digest':
+        this.addToDigest(alert, message);
+        alert.resolve({ status: 'rate-limited', severity: alert.severity, transports: [], errors: [] });
+        break;
 
-    for (const file of files) {
-      const filePath = path.join(tempDir, file);
-      try {
-        const stats = fs.statSync(filePath);
-        if (now - stats.mtimeMs > maxAgeMs) {
-          await fs.promises.unlink(filePath);
-          console.log(`🧹 Cleaned up old file: ${file}`);
+      case 'queue':
+      default:
+        if (this.queue.length >= options.maxQueueSize) {
+          const error = new Error(`Rate limit exceeded: queue full, dropped ${alert.severity} alert for ${channelNames(alert.targets).join(', ')} (${message.substring(0, 100)})`);
+          this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
+          alert.resolve({ status: 'rate-limited', severity: alert.severity, transports: [], errors: [error] });
+          return;
         }
-      } catch (error) {
-        // Ignore errors for cleanup
-      }
+        this.queue.push(alert);
+        this.config.getLog().info('Rate limited, queued alert', { severity: alert.severity, channels: channelNames(alert.targets), waiting: this.queue.length });
+        this.scheduleDrain();
+        break;
     }
   }
-}
 
-// ============================================
-// 4. SLACK NOTIFIER (Updated for format conversion)
-// ============================================
-class SlackNotifier {
-  private fileCreator: FileCreator;
+  private scheduleDrain(): void {
+    if (this.drainTimer || this.queue.length === 0 || !this.rateLimiter) return;
 
-  constructor(private config: ConfigStore) {
-    this.fileCreator = new FileCreator(config);
+    const limiter = this.rateLimiter;
+    const waitMs = Math.min(...this.queue.map(item => limiter.msUntilAvailable(item.severity, channelNames(item.targets))));
 
-    // Cleanup old files on startup
-    this.fileCreator.cleanupOldFiles().catch(() => { });
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      this.drainQueue();
+    }, Math.max(waitMs, 50));
   }
 
-  async sendToSlack(
-    severity: 'HIGH' | 'MEDIUM' | 'LOW',
-    error: Error | string,
-    options?: {
-      channelName?: string;
-      channelId?: string;
-      // Direct creation mode
-      fileData?: any;
-      fileName?: string;
-      fileType?: 'txt' | 'json' | 'csv';
-      // Conversion mode
-      from?: 'txt' | 'json' | 'csv';
-      to?: 'txt' | 'json' | 'csv';
-      csvHeaders?: string[];
-      comment?: string;
-    }
-  ): Promise<void> {
-    try {
-      const channelName = options?.channelName || this.config.getDefaultChannelName();
-      const channelId = options?.channelId || this.config.getDefaultChannelId();
-      const client = this.config.getSlackClient();
-
-      // Format error message
-      const errorMessage = error instanceof Error ? error.message : error;
-      const stackTrace = error instanceof Error ? error.stack || '' : '';
-
-      // Create message blocks
-      let color = '#36a64f'; // Green for LOW
-      let emoji = 'ℹ️';
+  /**
+   * Send every queued alert that has budget again, in order
+   */
+  private drainQueue(): void {
+    const pending = this.queue;
+    this.queue = [];
 
-      if (severity === 'MEDIUM') {
-        color = '#ffcc00'; // Yellow
-        emoji = '⚠️';
-      } else if (severity === 'HIGH') {
-        color = '#ff0000'; // Red
-        emoji = '🚨';
+    for (const item of pending) {
+      if (this.rateLimiter!.tryAcquire(item.severity, channelNames(item.targets))) {
+        this.deliver(item.severity, item.error, item.options, item.fingerprint, item.scope).then(item.resolve);
+      } else {
+        this.queue.push(item);
       }
+    }
 
-      const blocks: any[] = [
-        {
-          type: 'header',
-          text: {
-            type: 'plain_text',
-            text: `${emoji} ${severity} ALERT`,
-            emoji: true
-          }
-        },
-        {
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: `*Error:*\n\`\`\`${errorMessage.substring(0, 1000)}\`\`\``
-          }
-        }
-      ];
-
-      // Add file info if fileData is provided
-      let filePath: string | undefined;
+    this.scheduleDrain();
+  }
 
-      if (options?.fileData !== undefined) {
-        // Create file from data with optional conversion
-        filePath = this.fileCreator.createFileFromData(options.fileData, {
-          fileName: options.fileName,
-          fileType: options.fileType,
-          from: options.from,
-          to: options.to,
-          csvHeaders: options.csvHeaders
-        });
+  /**
+   * Roll an over-budget alert into a per-channel digest, sent once budget returns
+   */
+  private addToDigest(alert: QueuedAlert, message: string): void {
+    alert.targets.forEach(({ channelName, channelId }) => {
+      let digest = this.digests.get(channelName);
+
+      if (!digest) {
+        const waitMs = this.rateLimiter!.msUntilAvailable(alert.severity, [channelName]);
+        digest = {
+          timer: setTimeout(() => this.flushDigest(channelName), Math.max(waitMs, 1000)),
+          total: 0,
+          highestSeverity: alert.severity,
+          // Posted straight to the channel it summarizes
+          options: { channelName, channelId },
+          messages: new Map()
+        };
+        this.digests.set(channelName, digest);
+
+        this.emitter.emit(EVENTS.INTERNAL_ERROR,
+          new Error(`Rate limit exceeded: shedding alerts for ${channelName} into a digest`));
+      }
 
-        const fileName = path.basename(filePath);
-        const stats = fs.statSync(filePath);
-        const fileSizeKB = (stats.size / 1024).toFixed(2);
-        const fileExtension = path.extname(fileName).substring(1).toUpperCase();
+      digest.total++;
+      if (SEVERITY_RANK[alert.severity] > SEVERITY_RANK[digest.highestSeverity]) {
+        digest.highestSeverity = alert.severity;
+      }
 
-        // Add conversion info if applicable
-        let formatInfo = `*Format:* ${fileExtension}`;
-        if (options.from && options.to) {
-          formatInfo = `*Converted:* ${options.from.toUpperCase()} → ${options.to.toUpperCase()}`;
-        }
+      const key = message.substring(0, 200);
+      const existing = digest.messages.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        digest.messages.set(key, { severity: alert.severity, count: 1 });
+      }
+    });
+  }
 
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: `*Attached File:* ${fileName}\n${formatInfo}\n*Size:* ${fileSizeKB} KB`
-          }
-        });
+  private flushDigest(channel: string): void {
+    const digest = this.digests.get(channel);
+    this.digests.delete(channel);
+    if (!digest) return;
+    // Flushed early (e.g. on shutdown) - don't keep the process alive for the timer
+    clearTimeout(digest.timer);
+
+    const topMessages = Array.from(digest.messages.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, 10)
+      .map(([message, info]) => `• ${info.count}× [${info.severity}] ${message}`)
+      .join('\n');
+
+    this.track(this.deliver(
+      digest.highestSeverity,
+      `Rate limit digest: ${digest.total} alert(s) were held back`,
+      { ...digest.options, comment: topMessages }
+    ));
+  }
 
-        if (options.comment) {
-          blocks.push({
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: `*Comment:* ${options.comment}`
-            }
-          });
-        }
-      } else if (options?.comment) {
-        // If no file but has comment
-        blocks.push({
-          type: 'section',
-          text: {
-            type: 'mrkdwn',
-            text: `*Note:* ${options.comment}`
-          }
-        });
+  /**
+   * Post one summary per channel with the top offenders, full list as CSV
+   */
+  private sendDigest(bucket: DigestBucket): void {
+    const { entries } = bucket;
+    if (entries.length === 0) return;
+
+    const groups = summarizeDigest(entries);
+    const highest = entries.some(entry => entry.severity === 'MEDIUM') ? 'MEDIUM' : 'LOW';
+    const since = bucket.since.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    const topOffenders = groups
+      .slice(0, this.digestScheduler!.getOptions().topOffenders)
+      .map(group => `• ${group.count}× [${group.severity}] ${group.message.substring(0, 200)}`)
+      .join('\n');
+
+    this.config.getLog().info('Sending digest', { count: entries.length, groups: groups.length });
+
+    this.track(this.deliver(
+      highest,
+      `Digest: ${entries.length} alert(s) in ${groups.length} group(s) since ${since}`,
+      {
+        ...bucket.options,
+        comment: `Top offenders:\n${topOffenders}`,
+        fileData: entries.map(entry => ({
+          time: entry.time.toISOString(),
+          severity: entry.severity,
+          message: entry.message,
+          fingerprint: entry.fingerprint.substring(0, 12),
+          comment: entry.comment || ''
+        })),
+        fileType: 'csv',
+        fileName: `digest-${Date.now()}`
       }
+    ));
+  }
 
-      // Add timestamp
-      blocks.push({
-        type: 'context',
-        elements: [
-          {
-            type: 'mrkdwn',
-            text: `*Time:* ${new Date().toLocaleString()}`
-          }
-        ]
-      });
+  /**
+   * Verify and apply a button click from an interactive alert (a signed
+   * block_actions request). Resolves with the HTTP response to give Slack.
+   */
+  async handleInteraction(
+    body: string,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<InteractionResponse> {
+    const interactive = this.config.getInteractiveOptions();
+    if (!interactive) {
+      return { status: 404, body: 'Interactive alerts are not enabled' };
+    }
 
-      // 1️⃣ FIRST: Send message with CHANNEL NAME
-      console.log(`📤 Sending ${severity} alert to ${channelName}...`);
-
-      const messageResult = await client.chat.postMessage({
-        channel: channelName,
-        text: `${emoji} ${severity} Alert: ${errorMessage.substring(0, 100)}...`,
-        blocks: blocks,
-        attachments: [
-          {
-            color: color
-          }
-        ]
-      });
+    const header = (name: string): string | undefined => {
+      const found = Object.keys(headers).find(key => key.toLowerCase() === name);
+      const value = found ? headers[found] : undefined;
+      return Array.isArray(value) ? value[0] : value;
+    };
+    if (!verifySlackRequest(interactive.signingSecret, body, header('x-slack-request-timestamp'), header('x-slack-signature'))) {
+      this.config.getLog().warn('Rejected interaction with an invalid or expired signature');
+      return { status: 401, body: 'Invalid signature' };
+    }
 
-      console.log(`✅ Message sent successfully (ID: ${messageResult.ts})`);
+    let interaction: any;
+    try {
+      interaction = JSON.parse(new URLSearchParams(body).get('payload') || '');
+    } catch {
+      return { status: 400, body: 'Expected a form-encoded payload field' };
+    }
 
-      // 2️⃣ SECOND: Upload file if fileData was provided
-      if (filePath) {
-        try {
-          const fileBuffer = fs.readFileSync(filePath);
-          const fileName = path.basename(filePath);
+    // Other apps' buttons, or other interaction types - acknowledge and ignore
+    const clicked = interaction?.type === 'block_actions'
+      ? (interaction.actions || []).find((candidate: any) => candidate.block_id === ACTIONS_BLOCK_ID)
+      : undefined;
+    const action = clicked?.action_id?.replace(/^alert_/, '') as AlertAction;
+    if (!clicked || !ALERT_ACTIONS.includes(action)) {
+      return { status: 200, body: '' };
+    }
 
-          console.log(`📎 Uploading file: ${fileName}...`);
+    const channel = interaction.channel?.id || interaction.container?.channel_id;
+    const ts = interaction.message?.ts || interaction.container?.message_ts;
+    if (!channel || !ts || !clicked.value) {
+      return { status: 400, body: 'Interaction is missing the channel, message or fingerprint' };
+    }
 
-          // Use uploadV2 with CHANNEL ID
-          const uploadResult = await client.files.uploadV2({
-            channel_id: channelId,
-            file: fileBuffer,
-            filename: fileName,
-            title: `${severity} Alert - ${fileName}`
-          });
+    const at = new Date();
+    const event: AlertActionEvent = {
+      action,
+      fingerprint: clicked.value,
+      userId: interaction.user?.id,
+      userName: interaction.user?.username || interaction.user?.name,
+      channel,
+      ts,
+      at,
+      until: action === 'snooze' ? new Date(at.getTime() + interactive.snoozeMs) : undefined
+    };
 
-          console.log(`✅ File uploaded successfully`);
+    this.alertStates.record(event);
+    if (action === 'resolve') {
+      // A resolved alert that comes back is a new incident, not a repeat
+      this.fingerprints.forget(event.fingerprint);
+    }
 
-          // Delete file after successful upload
-          if (uploadResult.ok) {
-            await this.fileCreator.deleteFile(filePath);
-          }
+    this.config.getLog().info('Alert action', { action, fingerprint: event.fingerprint, user: event.userId, channel, ts });
+    this.emitter.emit(EVENTS.ALERT_ACTION, event);
+
+    try {
+      await this.slackTransport.updateState({ ...interaction.message, channel, ts }, event);
+    } catch (error) {
+      this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
+    }
+
+    return { status: 200, body: '' };
+  }
 
-        } catch (fileError: any) {
-          console.error(`❌ File upload failed:`, fileError.message);
+  /**
+   * Edit the original Slack message with "seen N times since HH:MM"
+   */
+  private async summarizeRepeats(entry: FingerprintEntry): Promise<void> {
+    if (!entry.payload || !entry.slackRef) {
+      // First occurrence never reached Slack - nothing to edit
+      return;
+    }
 
-          // Don't crash - message was already sent successfully
-          // File will be cleaned up by scheduled cleanup
+    const since = entry.firstSeen.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const payload: AlertPayload = {
+      ...entry.payload,
+      blocks: [
+        ...entry.payload.blocks,
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `🔁 *Seen ${entry.count} times* since ${since}`
+            }
+          ]
         }
-      }
+      ]
+    };
 
-    } catch (slackError: any) {
-      emitter.emit(EVENTS.INTERNAL_ERROR,
-        new Error(`Slack API failed: ${slackError?.data?.error || slackError.message || 'Unknown error'}`));
+    try {
+      const state = payload.fingerprint ? this.alertStates.get(payload.fingerprint, entry.slackRef.ts) : undefined;
+      await this.slackTransport.update(entry.slackRef.channel, entry.slackRef.ts, payload, state);
+      this.config.getLog().debug('Updated alert with repeat count', { channel: entry.slackRef.channel, ts: entry.slackRef.ts, count: entry.count });
+    } catch (error) {
+      this.emitter.emit(EVENTS.INTERNAL_ERROR, error);
     }
   }
 }
 
 // ============================================
-// 5. CORE SETUP
+// 26. CORE SETUP
 // ============================================
-const emitter = new EventEmitter();
-const config = ConfigStore.getInstance();
-let listenersInitialized = false;
+// Source maps describe files on disk, which are the same for every alerter
+const sourceMaps = new SourceMapResolver();
+
+const SEVERITY_EVENTS: Record<Severity, string> = {
+  HIGH: EVENTS.HIGH_ALERT,
+  MEDIUM: EVENTS.MEDIUM_ALERT,
+  LOW: EVENTS.LOW_ALERT
+};
 
 // Define options interface
 interface AlertOptions {
@@ -876,162 +6704,985 @@ interface AlertOptions {
   channelId?: string;
   fileData?: any;
   fileName?: string;
-  fileType?: 'txt' | 'json' | 'csv';
-  from?: 'txt' | 'json' | 'csv';
-  to?: 'txt' | 'json' | 'csv';
+  fileType?: FileType;
+  from?: FileType;
+  to?: FileType;
   csvHeaders?: string[];
+  // Delimiter, quoting, line endings and type inference for CSV files
+  csv?: CsvOptions;
   comment?: string;
+  // Overrides the computed fingerprint used for deduplication
+  fingerprint?: string;
+  // Set false to leave the interactive buttons off this alert
+  actions?: boolean;
+  // Alerts with the same key are posted as replies to the first one
+  threadKey?: string;
+  // Like threadKey, for alerts belonging to one request or job (default: the scope's `correlationId` tag, with threading on)
+  correlationId?: string;
+  // Layout for this alert only
+  template?: MessageTemplate;
+  // Added to the configured links, e.g. { runbook: 'https://...' }
+  links?: Record<string, string>;
+  // Service name matched by routing rules (default: the scope's `service` tag)
+  service?: string;
+}
+
+interface InitOptions {
+  autoDeleteFiles?: boolean;
+  // Suppress repeats of the same alert - true uses the defaults
+  dedupe?: boolean | DedupeOptions;
+  // Per-severity / per-channel alert budgets
+  rateLimit?: RateLimitOptions;
+  // Persist failed deliveries and retry them with backoff - true uses the defaults
+  retry?: boolean | RetryOptions;
+  // Scrub secrets and personal data from messages and files - true uses the defaults
+  redact?: boolean | RedactOptions;
+  // Batch LOW (and optionally MEDIUM) alerts into scheduled summaries
+  digest?: boolean | DigestOptions;
+  // Breadcrumb buffer size and how scope is rendered
+  scope?: ScopeOptions;
+  // Extra destinations, alerts are sent to Slack and to each of these
+  transports?: Transport[];
+  // Send alerts to different channels and mentions based on what they are
+  routes?: RouteRule[];
+  // Where attachments and the retry outbox live (default: temp-uploads, or temp-uploads/<name>)
+  tempDir?: string;
+  // Build attachments in the temp directory or as Buffers in memory (default: 'disk')
+  attachmentStorage?: AttachmentStorage;
+  // Use this instead of a WebClient created from the token (e.g. a FakeSlackClient in tests)
+  slackClient?: SlackApiClient;
+  // Receives the library's diagnostics (pino or winston). Without one the library is silent.
+  logger?: Logger;
+  // Least severe diagnostics passed to the logger (default: 'info')
+  logLevel?: LogLevel;
+  // Compress, split and cap large attachments - true uses the defaults
+  attachments?: boolean | AttachmentOptions;
+  // Acknowledge / Resolve / Snooze / Assign buttons on Slack alerts
+  interactive?: boolean | InteractiveOptions;
+  // Post repeats and correlated alerts as thread replies - true uses the defaults
+  threading?: boolean | ThreadingOptions;
+  // Message layout for every alert, or per severity (default: 'default')
+  template?: MessageTemplate | SeverityTemplates;
+  // Named links for templates, with {{placeholders}} (e.g. a runbook or dashboard URL)
+  links?: Record<string, string>;
+  // Shown on every alert and usable in routes (default: APP_ENV or NODE_ENV)
+  environment?: string;
+  // Version or commit being run (default: RELEASE, APP_VERSION, SOURCE_VERSION, GIT_COMMIT, COMMIT_SHA or package.json version)
+  release?: string;
+  // Name of the app (default: SERVICE_NAME or package.json name)
+  serviceName?: string;
+  // Host, pod or container (default: os.hostname())
+  serverName?: string;
+  // Severities sent per environment, e.g. { development: ['HIGH'] } - unlisted environments send everything
+  severitiesByEnvironment?: Record<string, Severity[]>;
+  // Parse stacks, resolve them through source maps and show the top in-app frames
+  stackTrace?: boolean | StackTraceOptions;
 }
 
-function initializeListeners(): void {
-  if (listenersInitialized) return;
+// Listeners hand the delivery promise back to the caller through this
+type AlertResponder = (result: AlertResult | Promise<AlertResult>) => void;
 
-  const slackNotifier = new SlackNotifier(config);
+function notInitializedResult(severity: Severity): AlertResult {
+  return {
+    status: 'not-initialized',
+    severity,
+    transports: [],
+    errors: [new Error('error-notifier: Not initialized')]
+  };
+}
+
+/**
+ * Emit an alert event and resolve with whatever the listener delivered
+ */
+function emitAlert(
+  emitter: EventEmitter,
+  severity: Severity,
+  error: Error | string,
+  options?: AlertOptions
+): Promise<AlertResult> {
+  return new Promise(resolve => {
+    // No listener means the alerter was closed
+    if (!emitter.emit(SEVERITY_EVENTS[severity], error, options, resolve)) {
+      resolve(notInitializedResult(severity));
+    }
+  });
+}
+
+function initializeListeners(emitter: EventEmitter, config: ConfigStore, notifier: AlertNotifier): void {
 
   // HIGH alerts
   emitter.on(EVENTS.HIGH_ALERT, (
     error: Error | string,
-    options?: AlertOptions
+    options?: AlertOptions,
+    respond?: AlertResponder
   ) => {
     if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Cannot send alert - not initialized');
+      config.getLog().warn('Alert dropped, not initialized');
+      respond?.(notInitializedResult('HIGH'));
       return;
     }
-    slackNotifier.sendToSlack('HIGH', error, options);
+    const delivery = notifier.notify('HIGH', error, options);
+    respond?.(delivery);
   });
 
   // MEDIUM alerts
   emitter.on(EVENTS.MEDIUM_ALERT, (
     error: Error | string,
-    options?: AlertOptions
+    options?: AlertOptions,
+    respond?: AlertResponder
   ) => {
     if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Cannot send alert - not initialized');
+      config.getLog().warn('Alert dropped, not initialized');
+      respond?.(notInitializedResult('MEDIUM'));
       return;
     }
-    slackNotifier.sendToSlack('MEDIUM', error, options);
+    const delivery = notifier.notify('MEDIUM', error, options);
+    respond?.(delivery);
   });
 
   // LOW alerts
   emitter.on(EVENTS.LOW_ALERT, (
     error: Error | string,
-    options?: AlertOptions
+    options?: AlertOptions,
+    respond?: AlertResponder
   ) => {
     if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Cannot send alert - not initialized');
+      config.getLog().warn('Alert dropped, not initialized');
+      respond?.(notInitializedResult('LOW'));
       return;
     }
-    slackNotifier.sendToSlack('LOW', error, options);
+    const delivery = notifier.notify('LOW', error, options);
+    respond?.(delivery);
   });
 
-  listenersInitialized = true;
-  console.log('🔌 Listeners initialized');
+  config.getLog().debug('Listeners initialized');
 }
 
-initializeListeners();
-
 // ============================================
-// 6. PUBLIC API (Updated with format conversion)
+// 27. PROCESS ERROR CAPTURE
 // ============================================
-const alert = {
-  /**
-   * Initialize the error notifier
-   */
-  init(
-    slackToken: string,
-    channelName: string,
-    channelId: string,
-    options?: { autoDeleteFiles?: boolean }
-  ): void {
-    config.init(slackToken, channelName, channelId, options);
-  },
+interface CaptureOptions {
+  uncaughtException?: boolean; // default: true
+  unhandledRejection?: boolean; // default: true
+  warning?: boolean; // default: true
+  // Severity of process warnings - they never flush or exit (default: MEDIUM)
+  warningSeverity?: 'MEDIUM' | 'LOW';
+  // Signals that trigger an alert before shutdown (default: SIGTERM, SIGINT)
+  signals?: NodeJS.Signals[];
+  // How long to wait for pending alerts before exiting (default: 5s)
+  flushTimeoutMs?: number;
+}
 
-  /**
-   * Send high priority alert with optional file data or conversion
-   */
-  high(
-    error: Error | string,
-    options?: AlertOptions
-  ): void {
-    if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Not initialized');
-      return;
-    }
-    emitter.emit(EVENTS.HIGH_ALERT, error, options);
-  },
+// Alerters that currently have process hooks installed
+const processCaptures = new WeakSet<Alerter>();
 
-  /**
-   * Send medium priority alert with optional file data or conversion
-   */
-  medium(
-    error: Error | string,
-    options?: AlertOptions
-  ): void {
-    if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Not initialized');
-      return;
+/**
+ * Snapshot of the running process, attached to crash alerts
+ */
+function getProcessInfo(): Record<string, any> {
+  const memory = process.memoryUsage();
+  const toMB = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10;
+
+  return {
+    nodeVersion: process.version,
+    pid: process.pid,
+    platform: process.platform,
+    uptimeSeconds: Math.round(process.uptime()),
+    memoryMB: {
+      rss: toMB(memory.rss),
+      heapUsed: toMB(memory.heapUsed),
+      heapTotal: toMB(memory.heapTotal),
+      external: toMB(memory.external)
     }
-    emitter.emit(EVENTS.MEDIUM_ALERT, error, options);
+  };
+}
+
+/**
+ * Alert options describing a process-level event, with the process snapshot attached
+ */
+function processEventOptions(event: string, error: Error): AlertOptions {
+  const info = getProcessInfo();
+  return {
+    fileData: { event, error: serializeError(error), ...info },
+    fileType: 'json',
+    fileName: `process-${event}`,
+    comment: `${event} in pid ${info.pid} (Node ${info.nodeVersion}, up ${info.uptimeSeconds}s, rss ${info.memoryMB.rss} MB)`
+  };
+}
+
+/**
+ * Send a HIGH alert describing a fatal process event and wait for it to go out
+ */
+async function reportProcessEvent(
+  target: Alerter,
+  log: DiagnosticLog,
+  event: string,
+  error: Error,
+  flushTimeoutMs: number
+): Promise<void> {
+  if (!target.isInitialized()) {
+    log.warn('Process event not reported, not initialized', { event, error: error.message });
+    return;
+  }
+
+  target.high(error, processEventOptions(event, error));
+  await target.flush(flushTimeoutMs);
+}
+
+/**
+ * Hook process-level failures. Returns a function that removes the hooks.
+ *
+ * The process only exits on our behalf when we are the sole listener -
+ * an app with its own handlers keeps control of shutdown.
+ */
+function captureProcessErrors(target: Alerter, log: DiagnosticLog, options: CaptureOptions = {}): () => void {
+  if (processCaptures.has(target)) {
+    throw new Error('error-notifier: Process error capture is already installed');
+  }
+
+  // Listeners are kept by name, which the overloaded process.on() signatures do not accept
+  const processEvents: EventEmitter = process;
+  const flushTimeoutMs = options.flushTimeoutMs ?? 5000;
+  const installed: [string, (...args: any[]) => void][] = [];
+  let exiting = false;
+
+  const exitAfter = (event: string, error: Error, exitCode: number) => {
+    if (exiting) return;
+    // Once loaded, the domain module keeps a listener of its own on uncaughtException
+    const soleListener = processEvents.listeners(event)
+      .filter(listener => listener.name !== 'domainUncaughtExceptionClear').length === 1;
+    if (soleListener) exiting = true;
+
+    reportProcessEvent(target, log, event, error, flushTimeoutMs)
+      .catch(() => { })
+      .then(() => {
+        if (soleListener) {
+          process.exit(exitCode);
+        }
+      });
+  };
+
+  if (options.uncaughtException !== false) {
+    installed.push(['uncaughtException', (error: Error) => {
+      exitAfter('uncaughtException', error, 1);
+    }]);
+  }
+
+  if (options.unhandledRejection !== false) {
+    installed.push(['unhandledRejection', (reason: unknown) => {
+      const error = reason instanceof Error
+        ? reason
+        : new Error(`Unhandled promise rejection: ${String(reason)}`);
+      exitAfter('unhandledRejection', error, 1);
+    }]);
+  }
+
+  if (options.warning !== false) {
+    const method = options.warningSeverity === 'LOW' ? 'low' : 'medium';
+    installed.push(['warning', (warning: Error) => {
+      // Not fatal - queue it like any other alert
+      target[method](warning, processEventOptions('warning', warning));
+    }]);
+  }
+
+  const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+  signals.forEach(signal => {
+    installed.push([signal, () => {
+      // Conventional 128 + signal number exit code
+      const signalNumber = os.constants.signals[signal] || 15;
+      exitAfter(signal, new Error(`Process received ${signal}`), 128 + signalNumber);
+    }]);
+  });
+
+  installed.forEach(([event, listener]) => processEvents.on(event, listener));
+  processCaptures.add(target);
+  log.info('Capturing process errors', { events: installed.map(([event]) => event) });
+
+  return () => {
+    installed.forEach(([event, listener]) => processEvents.off(event, listener));
+    processCaptures.delete(target);
+  };
+}
+
+// ============================================
+// 28. FRAMEWORK MIDDLEWARE (Express / Fastify / Koa)
+// ============================================
+interface MiddlewareOptions {
+  // Custom status -> severity mapping, return null to skip alerting
+  severityForStatus?: (status: number) => Severity | null;
+  // 4xx statuses that should raise a LOW alert (default: none)
+  alertOn4xx?: number[];
+  // Extra header names to redact (authorization, cookies and API keys always are)
+  redactHeaders?: string[];
+  // Header carrying the request id (default: x-request-id)
+  requestIdHeader?: string;
+  // Alerter to report through (default: the default alert instance)
+  alerter?: Alerter;
+  channelName?: string;
+  channelId?: string;
+}
+
+/**
+ * The request fields every framework can give us
+ */
+interface RequestInfo {
+  method?: string;
+  url?: string;
+  route?: string;
+  params?: Record<string, any>;
+  headers?: Record<string, any>;
+  id?: string;
+}
+
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+/**
+ * 5xx -> HIGH, opted-in 4xx -> LOW, anything else is not alerted
+ */
+function defaultSeverityForStatus(status: number, alertOn4xx: number[]): Severity | null {
+  if (status >= 500) return 'HIGH';
+  if (alertOn4xx.includes(status)) return 'LOW';
+  return null;
+}
+
+function getErrorStatus(error: unknown, fallback?: number): number {
+  const fields: { status?: unknown; statusCode?: unknown } = typeof error === 'object' && error !== null ? error : {};
+  const status = Number(fields.status || fields.statusCode || fallback);
+  return status >= 400 && status < 600 ? status : 500;
+}
+
+function sanitizeHeaders(headers: Record<string, any> = {}, redact: string[]): Record<string, any> {
+  const denylist = [...SENSITIVE_HEADERS, ...redact.map(name => name.toLowerCase())];
+  const sanitized: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    sanitized[name] = denylist.includes(name.toLowerCase()) ? '[REDACTED]' : value;
+  }
+  return sanitized;
+}
+
+/**
+ * Shared by every framework adapter - decide severity and send the alert
+ */
+function reportRequestError(
+  error: unknown,
+  status: number,
+  request: RequestInfo,
+  options: MiddlewareOptions
+): void {
+  const target = options.alerter || alert;
+  if (!target.isInitialized()) return;
+
+  const severity = options.severityForStatus
+    ? options.severityForStatus(status)
+    : defaultSeverityForStatus(status, options.alertOn4xx || []);
+  if (!severity) return;
+
+  const alertError = error instanceof Error ? error : new Error(String(error));
+  const headers = sanitizeHeaders(request.headers, options.redactHeaders || []);
+  const requestIdHeader = (options.requestIdHeader || 'x-request-id').toLowerCase();
+  const requestId = headers[requestIdHeader] || request.id;
+
+  const context = {
+    method: request.method,
+    url: request.url,
+    route: request.route,
+    params: request.params,
+    status,
+    requestId,
+    headers
+  };
+
+  const method = severity.toLowerCase() as AlertSeverity;
+  target[method](alertError, {
+    channelName: options.channelName,
+    channelId: options.channelId,
+    fileData: context,
+    fileType: 'json',
+    fileName: `request-context-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    comment: `${request.method} ${request.route || request.url} → ${status}${requestId ? ` (request ${requestId})` : ''}`
+  });
+}
+
+/**
+ * Express error handler - register after your routes: app.use(expressErrorHandler())
+ * The error is passed on, so your own error handlers still run.
+ */
+function expressErrorHandler(options: MiddlewareOptions = {}) {
+  return (error: any, req: any, res: any, next: (error?: any) => void): void => {
+    const status = getErrorStatus(error, res.statusCode >= 400 ? res.statusCode : undefined);
+
+    reportRequestError(error, status, {
+      method: req.method,
+      url: req.originalUrl || req.url,
+      route: req.route?.path ? `${req.baseUrl || ''}${req.route.path}` : undefined,
+      params: req.params,
+      headers: req.headers,
+      id: req.id
+    }, options);
+
+    next(error);
+  };
+}
+
+/**
+ * Express middleware giving every request its own breadcrumb/tag scope -
+ * register before your routes: app.use(expressRequestScope())
+ */
+function expressRequestScope(options: Pick<MiddlewareOptions, 'alerter'> = {}) {
+  return (req: any, res: any, next: () => void): void => {
+    (options.alerter || alert).withScope(() => next());
+  };
+}
+
+/**
+ * The part of a Fastify instance the plugin uses
+ */
+interface FastifyHookTarget {
+  addHook(name: 'onRequest', hook: (request: any, reply: any, done: () => void) => void): unknown;
+  addHook(name: 'onError', hook: (request: any, reply: any, error: any) => Promise<void>): unknown;
+}
+
+/**
+ * Fastify plugin - fastify.register(fastifyErrorPlugin, options)
+ * Hooks onError, so Fastify's own error handling is unchanged.
+ * Each request also gets its own breadcrumb/tag scope.
+ */
+const fastifyErrorPlugin = Object.assign(
+  function fastifyErrorPlugin(fastify: FastifyHookTarget, options: MiddlewareOptions, done: (error?: Error) => void): void {
+    fastify.addHook('onRequest', (request, reply, next) => {
+      (options?.alerter || alert).withScope(() => next());
+    });
+
+    fastify.addHook('onError', async (request, reply, error) => {
+      reportRequestError(error, getErrorStatus(error, reply.statusCode >= 400 ? reply.statusCode : undefined), {
+        method: request.method,
+        url: request.url,
+        route: request.routeOptions?.url || request.routerPath,
+        params: request.params,
+        headers: request.headers,
+        id: request.id
+      }, options || {});
+    });
+    done();
   },
+  // Apply to the whole app rather than an encapsulated child context (what fastify-plugin does)
+  { [Symbol.for('skip-override')]: true }
+);
+
+/**
+ * Koa middleware - app.use(koaErrorMiddleware()) as the first middleware.
+ * The error is re-thrown, so Koa still responds as usual.
+ * Each request also gets its own breadcrumb/tag scope.
+ */
+function koaErrorMiddleware(options: MiddlewareOptions = {}) {
+  return async (ctx: any, next: () => Promise<any>): Promise<void> => {
+    try {
+      await (options.alerter || alert).withScope(() => next());
+    } catch (error) {
+      reportRequestError(error, getErrorStatus(error), {
+        method: ctx.method,
+        url: ctx.originalUrl || ctx.url,
+        route: ctx._matchedRoute,
+        params: ctx.params,
+        headers: ctx.headers,
+        id: ctx.state?.requestId
+      }, options);
+      throw error;
+    }
+  };
+}
 
-  /**
-   * Send low priority alert with optional file data or conversion
-   */
-  low(
-    error: Error | string,
-    options?: AlertOptions
-  ): void {
-    if (!config.getIsInitialized()) {
-      console.error('❌ error-notifier: Not initialized');
-      return;
+// ============================================
+// 29. PUBLIC API (Updated with format conversion)
+// ============================================
+const alerters = new Map<string, Alerter>();
+
+/**
+ * Build the public API around one config - each alerter gets its own
+ * emitter, listeners and delivery pipeline
+ */
+function buildAlerter(config: ConfigStore) {
+  const emitter = new EventEmitter();
+  const notifier = new AlertNotifier(config, emitter);
+  initializeListeners(emitter, config, notifier);
+  if (config.getIsInitialized()) {
+    notifier.start();
+  }
+
+  let stopWatching = () => { };
+
+  const fakeSlack = (): FakeSlackClient => {
+    const client = config.getIsInitialized() ? config.getSlackClient() : null;
+    if (!(client instanceof FakeSlackClient)) {
+      throw new Error('error-notifier: No fake Slack client in use. Call testing.useFakeSlack() or pass slackClient: new FakeSlackClient() to init()');
     }
-    emitter.emit(EVENTS.LOW_ALERT, error, options);
-  },
+    return client;
+  };
 
-  /**
-   * Check if initialized
-   */
-  isInitialized(): boolean {
-    return config.getIsInitialized();
-  },
+  // Swap the whole configuration in one synchronous step. The notifier is
+  // reconfigured, not restarted, so its snoozes, threads and dedupe windows survive.
+  const applyConfig = (loaded: LoadedConfig) => {
+    const client = config.getIsInitialized() ? config.getSlackClient() : null;
+    // A client passed in code (e.g. a FakeSlackClient) is not part of the file
+    const slackClient = client && !(client instanceof WebClient) ? client : undefined;
 
-  /**
-   * Get current channel info
-   */
-  getChannelInfo(): { name: string; id: string } {
-    return {
-      name: config.getDefaultChannelName(),
-      id: config.getDefaultChannelId()
+    const options = { slackClient, ...loaded.options };
+
+    // Dry run on a scratch store - a config init() rejects leaves the current one untouched
+    new ConfigStore(config.getName()).init(loaded.slackToken, loaded.channelName, loaded.channelId, options);
+
+    config.reset();
+    config.init(loaded.slackToken, loaded.channelName, loaded.channelId, options);
+    notifier.reconfigure();
+  };
+
+  const watchConfig = (filePath: string, intervalMs: number) => {
+    const fileName = path.basename(filePath);
+    let reloading = Promise.resolve();
+
+    const onChange = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+
+      reloading = reloading.then(async () => {
+        let next: LoadedConfig;
+        try {
+          next = readConfigFile(filePath);
+        } catch (error) {
+          // Keep running on the last good configuration
+          emitter.emit(EVENTS.INTERNAL_ERROR, error);
+          return;
+        }
+
+        // Let in-flight alerts finish on the old configuration
+        await notifier.settle(5000);
+
+        try {
+          applyConfig(next);
+          config.getLog().info('Reloaded config', { file: fileName });
+        } catch (error) {
+          emitter.emit(EVENTS.INTERNAL_ERROR,
+            new ConfigError(`error-notifier: Could not apply ${fileName}, kept the previous config: ${messageOf(error)}`));
+        }
+      }).catch(error => {
+        // Keep the chain alive so later edits are still picked up
+        emitter.emit(EVENTS.INTERNAL_ERROR, error);
+      });
     };
-  },
 
-  /**
-   * Clean up temp files manually
-   */
-  async cleanupTempFiles(): Promise<void> {
-    const tempDir = config.getTempDir();
-    if (fs.existsSync(tempDir)) {
-      const files = fs.readdirSync(tempDir);
-      console.log(`🧹 Cleaning up ${files.length} temp files...`);
-      // Implementation would go here
+    fs.watchFile(filePath, { interval: intervalMs, persistent: false }, onChange);
+    stopWatching = () => {
+      fs.unwatchFile(filePath, onChange);
+      stopWatching = () => { };
+    };
+  };
+
+  const instance = {
+    /**
+     * Initialize the error notifier
+     */
+    init(
+      slackToken: string,
+      channelName: string,
+      channelId: string,
+      options?: InitOptions
+    ): void {
+      config.init(slackToken, channelName, channelId, options);
+      notifier.start();
+    },
+
+    /**
+     * Initialize from alert-sentry.config.json / .yaml / .js, replacing any current
+     * configuration. Without a path the working directory is searched.
+     * Returns a function that stops watching the file.
+     */
+    loadConfig(filePath?: string, fileOptions: ConfigFileOptions = {}): () => void {
+      const resolved = filePath ? path.resolve(filePath) : findConfigFile(process.cwd());
+      if (!resolved) {
+        throw new ConfigError(`error-notifier: No config file found in ${process.cwd()} (looked for ${CONFIG_FILE_NAMES.join(', ')})`);
+      }
+
+      const loaded = readConfigFile(resolved);
+      stopWatching();
+      applyConfig(loaded);
+
+      if (fileOptions.watch) {
+        watchConfig(resolved, fileOptions.watchIntervalMs ?? 2000);
+        config.getLog().info('Watching config for changes', { file: path.basename(resolved) });
+      }
+      return stopWatching;
+    },
+
+    /**
+     * Send high priority alert with optional file data or conversion
+     */
+    high(
+      error: Error | string,
+      options?: AlertOptions
+    ): Promise<AlertResult> {
+      if (!config.getIsInitialized()) {
+        config.getLog().warn('Alert dropped, not initialized');
+        return Promise.resolve(notInitializedResult('HIGH'));
+      }
+      return emitAlert(emitter, 'HIGH', error, options);
+    },
+
+    /**
+     * Send medium priority alert with optional file data or conversion
+     */
+    medium(
+      error: Error | string,
+      options?: AlertOptions
+    ): Promise<AlertResult> {
+      if (!config.getIsInitialized()) {
+        config.getLog().warn('Alert dropped, not initialized');
+        return Promise.resolve(notInitializedResult('MEDIUM'));
+      }
+      return emitAlert(emitter, 'MEDIUM', error, options);
+    },
+
+    /**
+     * Send low priority alert with optional file data or conversion
+     */
+    low(
+      error: Error | string,
+      options?: AlertOptions
+    ): Promise<AlertResult> {
+      if (!config.getIsInitialized()) {
+        config.getLog().warn('Alert dropped, not initialized');
+        return Promise.resolve(notInitializedResult('LOW'));
+      }
+      return emitAlert(emitter, 'LOW', error, options);
+    },
+
+    /**
+     * Check if initialized
+     */
+    isInitialized(): boolean {
+      return config.getIsInitialized();
+    },
+
+    /**
+     * Get current channel info
+     */
+    getChannelInfo(): { name: string; id: string } {
+      return {
+        name: config.getDefaultChannelName(),
+        id: config.getDefaultChannelId()
+      };
+    },
+
+    /**
+     * Delete leftover attachment files older than `maxAgeHours` (default: 24) from
+     * the temp directory. Resolves with the number of files removed.
+     */
+    async cleanupTempFiles(maxAgeHours?: number): Promise<number> {
+      const removed = await notifier.cleanupTempFiles(maxAgeHours);
+      config.getLog().info('Cleaned up temp files', { count: removed });
+      return removed;
+    },
+
+    /**
+     * Send HIGH alerts for uncaught exceptions, unhandled rejections and shutdown
+     * signals, and MEDIUM (or LOW) ones for warnings. Returns a function that removes the hooks.
+     */
+    captureProcessErrors(options?: CaptureOptions): () => void {
+      return captureProcessErrors(instance, config.getLog(), options);
+    },
+
+    /**
+     * Record an event leading up to a possible alert
+     */
+    addBreadcrumb(breadcrumb: Breadcrumb): void {
+      config.getScopes().addBreadcrumb(breadcrumb);
+    },
+
+    /**
+     * Set (or clear with null) the user for the current scope
+     */
+    setUser(user: AlertUser | null): void {
+      config.getScopes().setUser(user);
+    },
+
+    /**
+     * Set a tag on the current scope
+     */
+    setTag(key: string, value: string): void {
+      config.getScopes().setTag(key, value);
+    },
+
+    /**
+     * Set (or clear with null) a named context object on the current scope
+     */
+    setContext(name: string, context: Record<string, any> | null): void {
+      config.getScopes().setContext(name, context);
+    },
+
+    /**
+     * Run a callback (e.g. one request) in its own isolated scope
+     */
+    withScope<T>(callback: () => T): T {
+      return config.getScopes().run(callback);
+    },
+
+    /**
+     * Wait for all in-flight alerts (call before the process exits).
+     * Resolves false if the timeout was hit first.
+     */
+    flush(timeoutMs: number = 10000): Promise<boolean> {
+      return notifier.flush(timeoutMs);
+    },
+
+    /**
+     * Number of failed deliveries waiting in the retry outbox
+     */
+    getRetryQueueDepth(): number {
+      return notifier.getOutbox()?.getDepth() ?? 0;
+    },
+
+    /**
+     * Deliveries that ran out of retry attempts
+     */
+    getDeadLetters(): DeadLetter[] {
+      return notifier.getOutbox()?.getDeadLetters() ?? [];
+    },
+
+    /**
+     * Give every dead-lettered delivery a fresh set of attempts
+     */
+    requeueDeadLetters(): number {
+      return notifier.getOutbox()?.requeueDeadLetters() ?? 0;
+    },
+
+    /**
+     * Verify and apply a signed Slack interaction request (Koa, Fastify, serverless...).
+     * Reply to Slack with the returned status and body.
+     */
+    handleInteraction(
+      body: string,
+      headers: Record<string, string | string[] | undefined>
+    ): Promise<InteractionResponse> {
+      return notifier.handleInteraction(body, headers);
+    },
+
+    /**
+     * Request handler for the Slack app's Interactivity Request URL, for
+     * http.createServer or Express. Mount it before any body parser.
+     */
+    interactionHandler(): (req: any, res: any) => void {
+      return (req, res) => {
+        readRawBody(req)
+          .then(body => notifier.handleInteraction(body, req.headers || {}))
+          .catch((error: unknown): InteractionResponse => {
+            emitter.emit(EVENTS.INTERNAL_ERROR, error);
+            return { status: 400, body: 'Could not read the request body' };
+          })
+          .then(response => {
+            res.statusCode = response.status;
+            res.setHeader('Content-Type', 'text/plain');
+            res.end(response.body);
+          });
+      };
+    },
+
+    /**
+     * Listen to Acknowledge / Resolve / Snooze / Assign clicks
+     */
+    onAction(listener: (event: AlertActionEvent) => void): void {
+      emitter.on(EVENTS.ALERT_ACTION, listener);
+    },
+
+    /**
+     * Remove action listener
+     */
+    offAction(listener: (event: AlertActionEvent) => void): void {
+      emitter.off(EVENTS.ALERT_ACTION, listener);
+    },
+
+    /**
+     * Listen to internal library errors
+     */
+    onError(listener: (error: Error) => void): void {
+      emitter.on(EVENTS.INTERNAL_ERROR, listener);
+    },
+
+    /**
+     * Remove error listener
+     */
+    offError(listener: (error: Error) => void): void {
+      emitter.off(EVENTS.INTERNAL_ERROR, listener);
+    },
+
+    /**
+     * Helpers for asserting on alerts in tests, without a Slack workspace
+     */
+    testing: {
+      /**
+       * Replace the Slack client with a FakeSlackClient that records calls
+       */
+      useFakeSlack(): FakeSlackClient {
+        const fake = new FakeSlackClient();
+        config.setSlackClient(fake);
+        return fake;
+      },
+
+      getFakeSlack(): FakeSlackClient {
+        return fakeSlack();
+      },
+
+      getSentMessages(): SentMessage[] {
+        return fakeSlack().getSentMessages();
+      },
+
+      getUpdates(): SentMessage[] {
+        return fakeSlack().getUpdates();
+      },
+
+      getUploadedFiles(): UploadedFile[] {
+        return fakeSlack().getUploadedFiles();
+      },
+
+      /**
+       * Forget everything the fake client has recorded
+       */
+      clear(): void {
+        fakeSlack().clear();
+      },
+
+      /**
+       * Sign a fixture interaction payload with the configured secret, as Slack would
+       */
+      signInteraction(
+        payload: object,
+        timestamp: number = Math.floor(Date.now() / 1000)
+      ): { body: string; headers: Record<string, string> } {
+        const interactive = config.getInteractiveOptions();
+        if (!interactive) {
+          throw new Error('error-notifier: Interactive alerts are not enabled');
+        }
+
+        const body = `payload=${encodeURIComponent(JSON.stringify(payload))}`;
+        return {
+          body,
+          headers: {
+            'content-type': 'application/x-www-form-urlencoded',
+            'x-slack-request-timestamp': String(timestamp),
+            'x-slack-signature': signSlackRequest(interactive.signingSecret, body, timestamp)
+          }
+        };
+      },
+
+      /**
+       * Press a button on a message recorded by the fake client
+       */
+      clickAction(message: SentMessage, action: AlertAction, userId: string = 'U0TESTER'): Promise<InteractionResponse> {
+        const button = message.blocks
+          .find(block => block.block_id === ACTIONS_BLOCK_ID)?.elements
+          .find((element: any) => element.action_id === `alert_${action}`);
+        if (!button) {
+          throw new Error(`error-notifier: The message has no ${action} button`);
+        }
+
+        const { body, headers } = instance.testing.signInteraction({
+          type: 'block_actions',
+          user: { id: userId, username: userId.toLowerCase() },
+          channel: { id: message.channel },
+          container: { type: 'message', message_ts: message.ts, channel_id: message.channel },
+          message: { ts: message.ts, text: message.text, blocks: message.blocks, attachments: [{ color: message.color }] },
+          actions: [{ type: 'button', block_id: ACTIONS_BLOCK_ID, action_id: button.action_id, value: button.value }]
+        });
+        return notifier.handleInteraction(body, headers);
+      }
+    },
+
+    /**
+     * Name this alerter was registered under
+     */
+    getName(): string {
+      return config.getName();
+    },
+
+    /**
+     * Stop timers and drop buffered alerts, then allow init() to be called again
+     */
+    reset(): void {
+      notifier.stop();
+      config.reset();
+    },
+
+    /**
+     * Flush, tear down and unregister this alerter. Resolves false if the flush timed out.
+     */
+    async close(timeoutMs: number = 10000): Promise<boolean> {
+      const flushed = await notifier.flush(timeoutMs);
+      stopWatching();
+      notifier.stop();
+      config.reset();
+      emitter.removeAllListeners();
+      if (alerters.get(config.getName()) === instance) {
+        alerters.delete(config.getName());
+      }
+      return flushed;
     }
-  },
+  };
 
-  /**
-   * Listen to internal library errors
-   */
-  onError(listener: (error: Error) => void): void {
-    emitter.on(EVENTS.INTERNAL_ERROR, listener);
-  },
+  return instance;
+}
 
-  /**
-   * Remove error listener
-   */
-  offError(listener: (error: Error) => void): void {
-    emitter.off(EVENTS.INTERNAL_ERROR, listener);
+type Alerter = ReturnType<typeof buildAlerter>;
+
+interface AlerterConfig extends InitOptions {
+  // Registry key, must be unique among open alerters
+  name: string;
+  slackToken: string;
+  channelName: string;
+  channelId: string;
+}
+
+/**
+ * Create an independent, named alerter with its own client, channel and pipeline
+ */
+function createAlerter(options: AlerterConfig): Alerter {
+  const { name, slackToken, channelName, channelId, ...initOptions } = options;
+  if (!name) {
+    throw new Error('error-notifier: createAlerter requires a name');
   }
-};
+  // The name becomes a directory under temp-uploads
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(name)) {
+    throw new Error(`error-notifier: Invalid alerter name "${name}" (use letters, digits, ".", "_" and "-")`);
+  }
+  if (alerters.has(name)) {
+    throw new Error(`error-notifier: An alerter named "${name}" already exists`);
+  }
+
+  const instance = buildAlerter(new ConfigStore(name));
+  instance.init(slackToken, channelName, channelId, initOptions);
+  alerters.set(name, instance);
+  return instance;
+}
+
+/**
+ * Look up an alerter created with createAlerter ('default' is the default export)
+ */
+function getAlerter(name: string): Alerter | undefined {
+  return alerters.get(name);
+}
+
+const defaultConfig = new ConfigStore('default');
+defaultConfig.tryAutoInitialize();
+
+const alert = buildAlerter(defaultConfig);
+alerters.set('default', alert);
 
 export default alert;
 export type AlertSeverity = 'high' | 'medium' | 'low';
-export type FileType = 'txt' | 'json' | 'csv';
\ No newline at end of file
+export type { Transport, AlertPayload, DeliveryReceipt, MailTransporter, AlertOptions, InitOptions, DedupeOptions, RateLimitOptions, RetryOptions, DeadLetter, AlertResult, TransportResult, CaptureOptions, MiddlewareOptions, RedactOptions,
+  Breadcrumb, AlertUser, ScopeSnapshot, ScopeOptions, DigestOptions, RouteRule, RouteMatch, CsvOptions, FileType, FileFormat, FormatContext, AttachmentOptions, AttachedFile, AttachmentStorage };
+export type { Alerter, AlerterConfig, ConfigFileOptions };
+export type { SlackApiClient, SlackMethod, SlackCall, SentMessage, UploadedFile };
+export type { Logger, LogLevel, LogFields, AlertMetadata };
+export type { InteractiveOptions, AlertAction, AlertActionEvent, InteractionResponse, ThreadingOptions };
+export type { MessageTemplate, BuiltInTemplate, BlockBuilder, TemplateContext, SeverityTemplates, StackTraceOptions, StackFrame, SerializedError };
+export { createAlerter, getAlerter, ConfigError, CONFIG_SCHEMA as configSchema, registerFileFormat, FakeSlackClient, parseStack, serializeError };
+export { DeliveryError, WebhookTransport, TeamsTransport, DiscordTransport, EmailTransport, FileTransport };
+export { expressErrorHandler, expressRequestScope, fastifyErrorPlugin, koaErrorMiddleware };
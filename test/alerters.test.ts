@@ -0,0 +1,69 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createAlerter, getAlerter } from '../src';
+import { createTestAlerter } from './helpers';
+
+/**
+ * The scope bundled into the alert's attachment
+ */
+async function attachedScope({ alerter, slack }: ReturnType<typeof createTestAlerter>) {
+  slack.clear();
+  await alerter.high('Checkout failed');
+  return JSON.parse(slack.getUploadedFiles()[0].content.toString());
+}
+
+function crumbs(alerter: ReturnType<typeof createTestAlerter>['alerter'], ...messages: string[]): void {
+  messages.forEach(message => alerter.addBreadcrumb({ message }));
+}
+
+describe('Named alerters', () => {
+  test('each alerter keeps its own breadcrumbs, tags and breadcrumb limit', async () => {
+    const payments = createTestAlerter({ scope: { maxBreadcrumbs: 1, attachToFile: true } });
+    const search = createTestAlerter({ scope: { attachToFile: true } });
+
+    payments.alerter.setTag('team', 'payments');
+    crumbs(search.alerter, 'query parsed', 'index hit');
+    crumbs(payments.alerter, 'card tokenized', 'charge sent');
+
+    const paymentsScope = await attachedScope(payments);
+    assert.deepEqual(paymentsScope.tags, { team: 'payments' });
+    assert.deepEqual(paymentsScope.breadcrumbs.map((crumb: any) => crumb.message), ['charge sent']);
+
+    const searchScope = await attachedScope(search);
+    assert.deepEqual(searchScope.tags, {});
+    assert.deepEqual(searchScope.breadcrumbs.map((crumb: any) => crumb.message), ['query parsed', 'index hit']);
+
+    await payments.alerter.close();
+    await search.alerter.close();
+  });
+
+  test('reset() restores the default breadcrumb limit', async () => {
+    const tested = createTestAlerter({ scope: { maxBreadcrumbs: 2, attachToFile: true } });
+    const { alerter, slack } = tested;
+    crumbs(alerter, 'one', 'two', 'three');
+    assert.equal((await attachedScope(tested)).breadcrumbs.length, 2);
+
+    alerter.reset();
+    alerter.init('xoxb-test', '#alerts', 'C0TEST', { slackClient: slack, attachmentStorage: 'memory', scope: { attachToFile: true } });
+    crumbs(alerter, 'four', 'five', 'six');
+
+    // The breadcrumbs themselves outlive the reset
+    assert.deepEqual((await attachedScope(tested)).breadcrumbs.map((crumb: any) => crumb.message), ['two', 'three', 'four', 'five', 'six']);
+    await alerter.close();
+  });
+
+  test('names must be unique and safe to use as a directory', async () => {
+    const { alerter } = createTestAlerter();
+    const base = { slackToken: 'xoxb-test', channelName: '#alerts', channelId: 'C0TEST', attachmentStorage: 'memory' as const };
+
+    assert.throws(() => createAlerter({ ...base, name: alerter.getName() }), /already exists/);
+    for (const name of ['../escape', 'a/b', '..', '.hidden', '']) {
+      assert.throws(() => createAlerter({ ...base, name }), /name/);
+      assert.equal(getAlerter(name), undefined);
+    }
+
+    assert.equal(getAlerter(alerter.getName()), alerter);
+    await alerter.close();
+    assert.equal(getAlerter(alerter.getName()), undefined);
+  });
+});
@@ -0,0 +1,230 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError } from '../src';
+import { createTestAlerter } from './helpers';
+
+let root: string;
+let count = 0;
+
+const SLACK = { token: 'xoxb-file', channelName: '#from-file', channelId: 'C0FILE' };
+
+/**
+ * Write a config file into a fresh directory and return its path
+ */
+function writeConfig(contents: object | string, extension: string = 'json'): string {
+  const filePath = path.join(root, `${++count}`, `alert-sentry.config.${extension}`);
+  fs.mkdirSync(path.dirname(filePath));
+  fs.writeFileSync(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  return filePath;
+}
+
+function configIssues(load: () => unknown): string[] {
+  try {
+    load();
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.issues;
+  }
+  assert.fail('Expected a ConfigError');
+}
+
+/**
+ * Resolve once `check` passes, polling while the file watcher catches up
+ */
+async function eventually(check: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) assert.fail('Timed out waiting for the config reload');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * Give the watcher time to take its first look at the file, so the next write is a change
+ */
+function settleWatcher(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+describe('Config file', () => {
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'config-file-'));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('every schema problem is reported with its path', async () => {
+    const { alerter } = createTestAlerter();
+    const filePath = writeConfig({
+      slack: { token: 'xoxp-user', channelName: '#alerts' },
+      dedupe: { windowMs: 0 },
+      routes: [{ match: { severity: 'CRITICAL' }, channels: [{ channelName: '#x' }] }],
+      transports: [{ type: 'pager' }, { type: 'email', from: 'alerts@example.com', to: ['ops@example.com'] }],
+      redact: { patterns: ['(unclosed'] },
+      colour: 'red'
+    });
+
+    assert.deepEqual(configIssues(() => alerter.loadConfig(filePath)), [
+      '$.slack.channelId is required',
+      '$.slack.token must match ^xoxb-',
+      '$.dedupe.windowMs must be greater than 0',
+      '$.routes[0].match.severity must be one of: HIGH, MEDIUM, LOW',
+      '$.routes[0].channels[0].channelId is required',
+      '$.transports[0].type must be one of: webhook, teams, discord, email, file',
+      '$.transports[1].transporter is required',
+      '$.redact.patterns[0] is not a valid regular expression (Invalid regular expression: /(unclosed/: Unterminated group)',
+      '$.colour is not a known option'
+    ]);
+    // Nothing was applied
+    assert.deepEqual(alerter.getChannelInfo(), { name: '#alerts', id: 'C0TEST' });
+    await alerter.close();
+  });
+
+  test('a config init() rejects keeps the current configuration', async () => {
+    const previous = process.env.SLACK_SIGNING_SECRET;
+    delete process.env.SLACK_SIGNING_SECRET;
+    const { alerter, slack } = createTestAlerter();
+
+    try {
+      // Valid for the schema, but interactive alerts need a signing secret
+      assert.throws(() => alerter.loadConfig(writeConfig({ slack: SLACK, interactive: true })), /interactive\.signingSecret/);
+
+      assert.deepEqual(alerter.getChannelInfo(), { name: '#alerts', id: 'C0TEST' });
+      assert.equal((await alerter.high('Still here')).status, 'sent');
+      assert.equal(slack.getSentMessages()[0].channel, '#alerts');
+    } finally {
+      if (previous !== undefined) process.env.SLACK_SIGNING_SECRET = previous;
+      await alerter.close();
+    }
+  });
+
+  test('${VAR} and ${VAR:-fallback} are read from the environment', async () => {
+    process.env.CONFIG_TEST_CHANNEL = 'C0ENV';
+    const { alerter } = createTestAlerter();
+
+    try {
+      alerter.loadConfig(writeConfig({
+        slack: { token: 'xoxb-${CONFIG_TEST_TOKEN:-fallback}', channelName: '#${CONFIG_TEST_NAME:-env}', channelId: '${CONFIG_TEST_CHANNEL}' },
+        attachmentStorage: 'memory'
+      }));
+      assert.deepEqual(alerter.getChannelInfo(), { name: '#env', id: 'C0ENV' });
+
+      delete process.env.CONFIG_TEST_CHANNEL;
+      assert.deepEqual(configIssues(() => alerter.loadConfig(writeConfig({ slack: { ...SLACK, channelId: '${CONFIG_TEST_CHANNEL}' } }))),
+        ['$.slack.channelId uses ${CONFIG_TEST_CHANNEL} but that environment variable is not set']);
+    } finally {
+      delete process.env.CONFIG_TEST_CHANNEL;
+      await alerter.close();
+    }
+  });
+
+  test('YAML files are parsed', async () => {
+    const { alerter } = createTestAlerter();
+
+    alerter.loadConfig(writeConfig('slack:\n  token: xoxb-yaml\n  channelName: "#yaml"\n  channelId: C0YAML\n', 'yaml'));
+
+    assert.deepEqual(alerter.getChannelInfo(), { name: '#yaml', id: 'C0YAML' });
+    await alerter.close();
+  });
+
+  test('.js configs can pass an email transporter and custom scrubbers', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const mails: any[] = [];
+    (globalThis as any).configTestMails = mails;
+
+    alerter.loadConfig(writeConfig(`module.exports = {
+      slack: ${JSON.stringify(SLACK)},
+      attachmentStorage: 'memory',
+      redact: { custom: [value => value.replace(/order-\\d+/g, 'order-#')] },
+      transports: [{
+        type: 'email',
+        transporter: { sendMail: async mail => { globalThis.configTestMails.push(mail); } },
+        from: 'alerts@example.com',
+        to: 'ops@example.com',
+        subjectPrefix: '[prod] '
+      }]
+    };`, 'js'));
+
+    await alerter.high('Refund failed for order-123');
+
+    assert.equal(slack.getSentMessages()[0].channel, '#from-file');
+    assert.equal(mails.length, 1);
+    assert.equal(mails[0].to, 'ops@example.com');
+    assert.match(mails[0].subject, /^\[prod\] 🚨 HIGH Alert: Refund failed for order-#$/);
+    delete (globalThis as any).configTestMails;
+    await alerter.close();
+  });
+
+  test('a watched file is reloaded without losing dedupe state', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const filePath = writeConfig({ slack: SLACK, attachmentStorage: 'memory', dedupe: { windowMs: 60000 } });
+
+    const stop = alerter.loadConfig(filePath, { watch: true, watchIntervalMs: 20 });
+    assert.equal((await alerter.high('Disk full')).status, 'sent');
+    await settleWatcher();
+
+    fs.writeFileSync(filePath, JSON.stringify({
+      slack: { ...SLACK, channelName: '#reloaded' },
+      attachmentStorage: 'memory',
+      dedupe: { windowMs: 60000 }
+    }));
+    await eventually(() => alerter.getChannelInfo().name === '#reloaded');
+
+    // Still inside the window opened before the reload
+    assert.equal((await alerter.high('Disk full')).status, 'suppressed');
+    assert.equal((await alerter.high('Disk nearly full')).status, 'sent');
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#from-file', '#reloaded']);
+    stop();
+    await alerter.close();
+  });
+
+  test('an invalid edit keeps the last good config', async () => {
+    const { alerter } = createTestAlerter();
+    const filePath = writeConfig({ slack: SLACK, attachmentStorage: 'memory' });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    const stop = alerter.loadConfig(filePath, { watch: true, watchIntervalMs: 20 });
+    await settleWatcher();
+    fs.writeFileSync(filePath, '{ "slack": ');
+    await eventually(() => errors.length > 0);
+
+    assert.ok(errors[0] instanceof ConfigError);
+    assert.match(errors[0].message, /is not valid JSON/);
+    assert.deepEqual(alerter.getChannelInfo(), { name: '#from-file', id: 'C0FILE' });
+    stop();
+    await alerter.close();
+  });
+
+  test('a rejected reload is reported and later edits still apply', async () => {
+    const previous = process.env.SLACK_SIGNING_SECRET;
+    delete process.env.SLACK_SIGNING_SECRET;
+    const { alerter } = createTestAlerter();
+    const filePath = writeConfig({ slack: SLACK, attachmentStorage: 'memory' });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    const stop = alerter.loadConfig(filePath, { watch: true, watchIntervalMs: 20 });
+    try {
+      await settleWatcher();
+      fs.writeFileSync(filePath, JSON.stringify({ slack: { ...SLACK, channelName: '#rejected' }, interactive: true }));
+      await eventually(() => errors.length > 0);
+
+      assert.match(errors[0].message, /Could not apply alert-sentry\.config\.json, kept the previous config: .*signingSecret/);
+      assert.deepEqual(alerter.getChannelInfo(), { name: '#from-file', id: 'C0FILE' });
+
+      await settleWatcher();
+      fs.writeFileSync(filePath, JSON.stringify({ slack: { ...SLACK, channelName: '#fixed' }, attachmentStorage: 'memory' }));
+      await eventually(() => alerter.getChannelInfo().name === '#fixed');
+    } finally {
+      if (previous !== undefined) process.env.SLACK_SIGNING_SECRET = previous;
+      stop();
+      await alerter.close();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+
+/**
+ * Resolve once `check` passes - windows close on their own timer
+ */
+async function eventually(check: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) assert.fail('Timed out waiting for the dedupe window');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function failAt(site: string): Error {
+  // Separate functions, so the errors have different top frames
+  const sites: Record<string, () => Error> = {
+    checkout: function checkout() { return new Error('Upstream timeout'); },
+    refunds: function refunds() { return new Error('Upstream timeout'); }
+  };
+  return sites[site]();
+}
+
+describe('Deduplication', () => {
+  test('repeats inside the window are suppressed, ignoring ids and numbers', async () => {
+    const { alerter, slack } = createTestAlerter({ dedupe: { windowMs: 60000 } });
+
+    const statuses = [
+      (await alerter.high('User 123 not found (request 0x1f2e)')).status,
+      (await alerter.high('User 456 not found (request 0x9a8b)')).status,
+      (await alerter.high('User 3f2b8c1e-9d4a-4c6b-8e2f-1a2b3c4d5e6f not found')).status,
+      // Same text, different severity - a different alert
+      (await alerter.low('User 789 not found (request 0x0001)')).status
+    ];
+
+    assert.deepEqual(statuses, ['sent', 'suppressed', 'sent', 'sent']);
+    assert.equal(slack.getSentMessages().length, 3);
+    await alerter.close();
+  });
+
+  test('the first message is updated with the repeat count when the window closes', async () => {
+    const { alerter, slack } = createTestAlerter({ dedupe: { windowMs: 50 } });
+
+    await alerter.medium('Cache miss storm on shard 1');
+    await alerter.medium('Cache miss storm on shard 2');
+    await alerter.medium('Cache miss storm on shard 3');
+    await eventually(() => slack.getUpdates().length === 1);
+
+    const [update] = slack.getUpdates();
+    assert.equal(update.ts, slack.getSentMessages()[0].ts);
+    assert.ok(update.blocks.some(block => block.elements?.some((element: { text?: string }) => /^🔁 \*Seen 3 times\* since /.test(element.text || ''))));
+
+    // The window is over - the next one alerts again
+    assert.equal((await alerter.medium('Cache miss storm on shard 4')).status, 'sent');
+    await alerter.close();
+  });
+
+  test('a single occurrence is never updated, even when flush closes its window', async () => {
+    const { alerter, slack } = createTestAlerter({ dedupe: { windowMs: 60000 } });
+
+    await alerter.high('Disk full');
+    await alerter.flush();
+
+    assert.equal(slack.getUpdates().length, 0);
+    assert.equal((await alerter.high('Disk full')).status, 'sent');
+    await alerter.close();
+  });
+
+  test('flush summarizes open windows instead of losing the count', async () => {
+    const { alerter, slack } = createTestAlerter({ dedupe: { windowMs: 60000 } });
+
+    await alerter.high('Disk full');
+    await alerter.high('Disk full');
+    await alerter.flush();
+
+    assert.equal(slack.getUpdates().length, 1);
+    await alerter.close();
+  });
+
+  test('top stack frames are part of the fingerprint unless stackFrames is 0', async () => {
+    // Just the frame that threw - the callers below it differ per line here
+    const byStack = createTestAlerter({ dedupe: { stackFrames: 1 } });
+    assert.equal((await byStack.alerter.high(failAt('checkout'))).status, 'sent');
+    assert.equal((await byStack.alerter.high(failAt('refunds'))).status, 'sent');
+    assert.equal((await byStack.alerter.high(failAt('checkout'))).status, 'suppressed');
+    await byStack.alerter.close();
+
+    const byMessage = createTestAlerter({ dedupe: { stackFrames: 0 } });
+    assert.equal((await byMessage.alerter.high(failAt('checkout'))).status, 'sent');
+    assert.equal((await byMessage.alerter.high(failAt('refunds'))).status, 'suppressed');
+    await byMessage.alerter.close();
+  });
+
+  test('an explicit fingerprint groups unrelated messages', async () => {
+    const { alerter } = createTestAlerter({ dedupe: true });
+
+    assert.equal((await alerter.high('Stripe returned 502', { fingerprint: 'payments-down' })).status, 'sent');
+    assert.equal((await alerter.high('Adyen timed out', { fingerprint: 'payments-down' })).status, 'suppressed');
+    assert.equal((await alerter.high('Adyen timed out')).status, 'sent');
+    await alerter.close();
+  });
+});
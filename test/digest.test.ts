@@ -0,0 +1,103 @@
+import { test, describe, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+import type { SentMessage } from '../src';
+
+function commentOf(message: SentMessage): string | undefined {
+  return message.blocks.map(block => block.text?.text || '').find(text => text.includes('Top offenders:'));
+}
+
+describe('Digest mode', () => {
+  test('digested severities are held back, the rest are sent straight away', async () => {
+    const { alerter, slack } = createTestAlerter({ digest: true });
+
+    assert.equal((await alerter.low('Cache miss')).status, 'digested');
+    assert.equal((await alerter.medium('Slow checkout')).status, 'sent');
+    assert.equal((await alerter.high('Database down')).status, 'sent');
+
+    assert.equal(slack.getSentMessages().length, 2);
+    await alerter.close();
+  });
+
+  test('flush posts one summary with the top offenders and a CSV of every alert', async () => {
+    const { alerter, slack } = createTestAlerter({ digest: { topOffenders: 2 } });
+
+    await alerter.low('Cache miss on user 123');
+    await alerter.low('Slow query', { comment: 'orders table' });
+    await alerter.low('Cache miss on user 456');
+    await alerter.low('Stale session');
+    await alerter.flush();
+
+    const [digest] = slack.getSentMessages();
+    assert.match(digest.text, /^ℹ️ LOW Alert: Digest: 4 alert\(s\) in 3 group\(s\) since /);
+    assert.match(commentOf(digest)!, /Top offenders:\n• 2× \[LOW\] Cache miss on user 123\n• 1× \[LOW\] Slow query$/);
+
+    const [file] = slack.getUploadedFiles();
+    assert.match(file.name, /^digest-\d+\.csv$/);
+    const rows = file.content.toString().trimEnd().split('\r\n');
+    assert.equal(rows[0], 'time,severity,message,fingerprint,comment');
+    assert.equal(rows.length, 5);
+    assert.match(rows[2], /,LOW,Slow query,[0-9a-f]{12},orders table$/);
+
+    // Nothing left to send
+    await alerter.flush();
+    assert.equal(slack.getSentMessages().length, 1);
+    await alerter.close();
+  });
+
+  test('each channel gets its own digest, raised to MEDIUM when it holds one', async () => {
+    const { alerter, slack } = createTestAlerter({ digest: { severities: ['LOW', 'MEDIUM'] } });
+    const payments = { channelName: '#payments', channelId: 'C0PAY' };
+
+    await alerter.low('Cache miss');
+    await alerter.low('Refund slow', payments);
+    await alerter.medium('Refund retried', payments);
+    await alerter.flush();
+
+    const digests = Object.fromEntries(slack.getSentMessages().map(message => [message.channel, message.text]));
+    assert.match(digests['#alerts'], /^ℹ️ LOW Alert: Digest: 1 alert\(s\) in 1 group\(s\)/);
+    assert.match(digests['#payments'], /^⚠️ MEDIUM Alert: Digest: 2 alert\(s\) in 2 group\(s\)/);
+    await alerter.close();
+  });
+
+  test('an explicit fingerprint groups unrelated messages', async () => {
+    const { alerter, slack } = createTestAlerter({ digest: true });
+
+    await alerter.low('Stripe returned 502', { fingerprint: 'payments' });
+    await alerter.low('Adyen timed out', { fingerprint: 'payments' });
+    await alerter.flush();
+
+    assert.match(commentOf(slack.getSentMessages()[0])!, /• 2× \[LOW\] Stripe returned 502$/);
+    await alerter.close();
+  });
+
+  test('the digest is sent every intervalMinutes', async () => {
+    mock.timers.enable(['setTimeout']);
+    const { alerter, slack } = createTestAlerter({ digest: { intervalMinutes: 5 } });
+
+    try {
+      await alerter.low('Cache miss');
+      mock.timers.tick(4 * 60000);
+      assert.equal(slack.getSentMessages().length, 0);
+
+      mock.timers.tick(60000);
+      // The first interval flushed the bucket - the next one starts empty
+      await alerter.low('Slow query');
+      mock.timers.tick(5 * 60000);
+    } finally {
+      mock.timers.reset();
+    }
+    await alerter.flush();
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.text.match(/Digest: \d alert/)![0]), ['Digest: 1 alert', 'Digest: 1 alert']);
+    await alerter.close();
+  });
+
+  test('init rejects invalid digest settings', () => {
+    assert.throws(() => createTestAlerter({ digest: { severities: ['HIGH'] as any } }), /digest\.severities may only contain LOW and MEDIUM/);
+    assert.throws(() => createTestAlerter({ digest: { intervalMinutes: 0 } }), /digest\.intervalMinutes must be greater than 0/);
+    // Longer than a 32-bit timer delay
+    assert.throws(() => createTestAlerter({ digest: { intervalMinutes: 60 * 24 * 30 } }), /digest\.intervalMinutes must be greater than 0 and at most 35791/);
+    assert.throws(() => createTestAlerter({ digest: { at: '25:00' } }), /Invalid digest time "25:00"/);
+  });
+});
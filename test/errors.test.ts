@@ -0,0 +1,95 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Socket } from 'net';
+import { serializeError } from '../src';
+import { createTestAlerter } from './helpers';
+
+// AggregateError is not part of the ES2020 lib the package targets
+const AggregateError: new (errors: unknown[], message: string) => Error = (globalThis as any).AggregateError;
+
+function withCause(message: string, cause: unknown, fields: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), { cause }, fields);
+}
+
+function errorBlock(blocks: any[]): string {
+  return blocks.find(block => block.text?.text.startsWith('*Error:*')).text.text;
+}
+
+describe('Error serialization', () => {
+  test('walks the cause chain and keeps custom fields', () => {
+    const root = Object.assign(new TypeError('socket hang up'), { code: 'ECONNRESET' });
+    const error = withCause('Charge failed', root, { statusCode: 502, retry: () => { }, socket: new Socket() });
+
+    const serialized = serializeError(error);
+
+    assert.equal(serialized.name, 'Error');
+    assert.equal(serialized.message, 'Charge failed');
+    assert.equal(serialized.statusCode, 502);
+    assert.equal(serialized.socket, '[Socket]');
+    assert.ok(!('retry' in serialized));
+    assert.deepEqual({ ...(serialized.cause as any), stack: undefined }, { name: 'TypeError', message: 'socket hang up', code: 'ECONNRESET', stack: undefined });
+  });
+
+  test('cycles become [Circular]', () => {
+    const first = new Error('first');
+    const second = withCause('second', first);
+    (first as any).cause = second;
+    (second as any).self = second;
+
+    const serialized = serializeError(second);
+
+    assert.equal((serialized.cause as any).cause, '[Circular]');
+    assert.equal(serialized.self, '[Circular]');
+    assert.doesNotThrow(() => JSON.stringify(serialized));
+  });
+
+  test('the alert shows causes, aggregated errors and fields', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const aggregate = new AggregateError([new RangeError('disk full'), withCause('timeout', 'upstream')], 'All uploads failed');
+
+    await alerter.high(withCause('Import failed', aggregate, { code: 'E_IMPORT' }));
+
+    assert.equal(errorBlock(slack.getSentMessages()[0].blocks), [
+      '*Error:*\n```Import failed (code: E_IMPORT)',
+      'Caused by: AggregateError: All uploads failed',
+      '  1. RangeError: disk full',
+      '  2. Error: timeout',
+      '     Caused by: upstream```'
+    ].join('\n'));
+    await alerter.close();
+  });
+
+  test('HTTP client errors keep the response body in attachments', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const error = Object.assign(new Error('Request failed with status code 422'), {
+      code: 'ERR_BAD_REQUEST',
+      response: { status: 422, data: { errors: [{ field: 'email', message: 'is taken' }] } }
+    });
+
+    await alerter.medium(error, { fileData: error, fileType: 'json' });
+    await alerter.medium('Batch failed', { fileData: [{ row: 1, error }], fileType: 'csv' });
+    await alerter.medium('As text', { fileData: withCause('Wrapped', error), fileType: 'txt' });
+
+    const [json, csv, text] = slack.getUploadedFiles().map(file => file.content.toString());
+    assert.deepEqual(JSON.parse(json).response.data.errors[0], { field: 'email', message: 'is taken' });
+    assert.match(csv, /ERR_BAD_REQUEST/);
+    assert.match(text, /^ERROR: Error: Wrapped\n/);
+    assert.match(text, /--- CAUSED BY ---\nERROR: Error: Request failed with status code 422/);
+    assert.match(text, /"field": "email"/);
+    await alerter.close();
+  });
+
+  test('redaction reaches causes and custom fields', async () => {
+    const { alerter, slack } = createTestAlerter({ redact: true });
+    const error = withCause('Login failed', new Error('no account for jane@example.com'), { token: 'abc123' });
+
+    await alerter.high(error, { fileData: error, fileType: 'json' });
+
+    assert.equal(errorBlock(slack.getSentMessages()[0].blocks),
+      '*Error:*\n```Login failed (token: [REDACTED])\nCaused by: Error: no account for [REDACTED]```');
+    const attached = JSON.parse(slack.getUploadedFiles()[0].content.toString());
+    assert.equal(attached.token, '[REDACTED]');
+    assert.equal(attached.cause.message, 'no account for [REDACTED]');
+    await alerter.close();
+  });
+});
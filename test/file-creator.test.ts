@@ -0,0 +1,307 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createTestAlerter } from './helpers';
+import { registerFileFormat } from '../src';
+import type { AlertOptions } from '../src';
+
+/**
+ * Send one alert and return what was uploaded for it
+ */
+async function upload(options: AlertOptions, alerterOptions = {}) {
+  const { alerter, slack } = createTestAlerter(alerterOptions);
+  const result = await alerter.low('Attachment', options);
+  await alerter.close();
+
+  assert.equal(result.status, 'sent', result.errors.map(error => error.message).join('; ') || undefined);
+  return { files: slack.getUploadedFiles(), message: slack.getSentMessages()[0] };
+}
+
+async function uploadText(options: AlertOptions): Promise<string> {
+  const { files } = await upload(options);
+  return files[0].content.toString();
+}
+
+describe('Direct creation', () => {
+  test('txt is the default format', async () => {
+    const { files } = await upload({ fileData: 'plain text' });
+    assert.match(files[0].name, /^alert-\d+-[0-9a-f]{8}\.txt$/);
+    assert.equal(files[0].content.toString(), 'plain text');
+  });
+
+  test('json gets _metadata', async () => {
+    const json = JSON.parse(await uploadText({ fileData: { order: 7 }, fileType: 'json' }));
+    assert.equal(json.order, 7);
+    assert.equal(json._metadata.format, 'json');
+  });
+
+  test('csv quotes delimiters, quotes and line breaks', async () => {
+    const csv = await uploadText({
+      fileData: [{ name: 'Doe, Jane', note: 'said "hi"' }, { name: 'Roe', note: 'two\nlines' }],
+      fileType: 'csv'
+    });
+    assert.equal(csv, 'name,note\r\n"Doe, Jane","said ""hi"""\r\nRoe,"two\nlines"\r\n');
+  });
+
+  test('csv flattens nested objects and honours csvHeaders', async () => {
+    const csv = await uploadText({
+      fileData: [{ id: 1, user: { email: 'a@example.com' } }],
+      fileType: 'csv',
+      csvHeaders: ['user.email', 'id']
+    });
+    assert.equal(csv, 'user.email,id\r\na@example.com,1\r\n');
+  });
+
+  test('csv streams async iterables', async () => {
+    async function* rows() {
+      yield { id: 1 };
+      yield { id: 2 };
+    }
+    assert.equal(await uploadText({ fileData: rows(), fileType: 'csv' }), 'id\r\n1\r\n2\r\n');
+  });
+
+  test('ndjson writes one value per line', async () => {
+    const ndjson = await uploadText({ fileData: [{ a: 1 }, { a: 2 }], fileType: 'ndjson' });
+    assert.equal(ndjson, '{"a":1}\n{"a":2}\n');
+  });
+
+  test('md renders a table', async () => {
+    const md = await uploadText({ fileData: [{ id: 1, state: 'a|b' }], fileType: 'md' });
+    assert.equal(md.split('\n')[0], '| id | state |');
+    assert.equal(md.split('\n')[1], '| --- | --- |');
+    assert.match(md, /a\\\|b/);
+  });
+
+  test('html escapes cell content', async () => {
+    const html = await uploadText({ fileData: [{ tag: '<script>' }], fileType: 'html' });
+    assert.match(html, /&lt;script&gt;/);
+    assert.doesNotMatch(html, /<td><script>/);
+  });
+});
+
+describe('Conversion', () => {
+  test('JSON -> CSV', async () => {
+    const csv = await uploadText({ fileData: '[{"a":1,"b":"x,y"}]', from: 'json', to: 'csv' });
+    assert.equal(csv, 'a,b\r\n1,"x,y"\r\n');
+  });
+
+  test('CSV -> NDJSON keeps quoted line breaks', async () => {
+    const ndjson = await uploadText({ fileData: 'a,b\n1,"x\ny"\n', from: 'csv', to: 'ndjson' });
+    assert.equal(ndjson, '{"a":"1","b":"x\\ny"}\n');
+  });
+
+  test('CSV -> JSON infers types when asked', async () => {
+    const json = JSON.parse(await uploadText({
+      fileData: 'id;active\n42;true\n',
+      from: 'csv',
+      to: 'json',
+      csv: { delimiter: ';', inferTypes: true }
+    }));
+    assert.deepEqual(json['0'], { id: 42, active: true });
+  });
+
+  test('TXT -> CSV with headers', async () => {
+    const csv = await uploadText({
+      fileData: 'Line 1\nLine 2',
+      from: 'txt',
+      to: 'csv',
+      csvHeaders: ['lineNumber', 'content']
+    });
+    assert.equal(csv, 'lineNumber,content\r\n1,Line 1\r\n2,Line 2\r\n');
+  });
+
+  test('JSON -> TXT', async () => {
+    const text = await uploadText({ fileData: '{"a":1}', from: 'json', to: 'txt' });
+    assert.deepEqual(JSON.parse(text), { a: 1 });
+  });
+
+  test('the message says what was converted', async () => {
+    const { message } = await upload({ fileData: '[{"a":1}]', from: 'json', to: 'tsv' });
+    assert.ok(message.blocks.some(block => block.text?.text.includes('*Converted:* JSON → TSV')));
+  });
+
+  test('invalid options fail the alert instead of throwing', async () => {
+    const { alerter, slack } = createTestAlerter();
+    alerter.onError(() => { });
+
+    const result = await alerter.low('Bad', { fileData: 'x', from: 'csv' } as AlertOptions);
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.errors[0].message, /^Failed to build alert: /);
+    assert.equal(slack.getSentMessages().length, 0);
+    await alerter.close();
+  });
+});
+
+describe('More formats', () => {
+  test('yaml writes and reads through the yaml package', async () => {
+    assert.equal(await uploadText({ fileData: { order: 7, items: ['a', 'b'] }, fileType: 'yaml' }), 'order: 7\nitems:\n  - a\n  - b\n');
+    assert.equal(await uploadText({ fileData: 'id: 1\nok: true\n', from: 'yaml', to: 'json' }).then(text => JSON.parse(text).ok), true);
+  });
+});
+
+describe('Custom formats', () => {
+  registerFileFormat({
+    name: 'kv',
+    serialize: (data: Record<string, unknown>[], { headers }) => data
+      .map(row => (headers || Object.keys(row)).map(key => `${key}=${row[key]}`).join(' '))
+      .join('\n'),
+    parse: input => input.split('\n').map(line => Object.fromEntries(line.split(' ').map(pair => pair.split('='))))
+  });
+  registerFileFormat({ name: 'bin', serialize: async data => Buffer.from(JSON.stringify(data)) });
+
+  test('fileType uses serialize and the name as the extension', async () => {
+    const { files } = await upload({ fileData: [{ id: 1, status: 'late', extra: 'x' }], fileType: 'kv', fileName: 'orders', csvHeaders: ['id', 'status'] });
+    assert.equal(files[0].name, 'orders.kv');
+    assert.equal(files[0].content.toString(), 'id=1 status=late');
+  });
+
+  test('parse makes the format a conversion source', async () => {
+    const csv = await uploadText({ fileData: 'id=1 status=late\nid=2 status=ok', from: 'kv', to: 'csv' });
+    assert.equal(csv, 'id,status\r\n1,late\r\n2,ok\r\n');
+  });
+
+  test('serialize may be async and return a Buffer', async () => {
+    assert.equal(await uploadText({ fileData: { a: 1 }, fileType: 'bin' }), '{"a":1}');
+  });
+
+  test('a format without parse can only be written', async () => {
+    const { alerter } = createTestAlerter();
+    alerter.onError(() => { });
+
+    const result = await alerter.low('Bad', { fileData: '{}', from: 'bin', to: 'json' });
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.errors[0].message, /Cannot convert from bin: the format can only be written, not read/);
+    await alerter.close();
+  });
+
+  test('invalid registrations are rejected', () => {
+    assert.throws(() => registerFileFormat({ name: 'X-ML', serialize: String }), /lowercase alphanumeric name/);
+    assert.throws(() => registerFileFormat({ name: 'csv', serialize: String }), /"csv" is a built-in format/);
+    assert.throws(() => registerFileFormat({ name: 'xml' } as any), /"xml" needs a serialize function/);
+  });
+});
+
+describe('Large attachments', () => {
+  const rows = Array.from({ length: 200 }, (_, index) => ({ id: index, note: 'row' }));
+
+  test('splits CSV into parts that each repeat the header', async () => {
+    const { files, message } = await upload(
+      { fileData: rows, fileType: 'csv', fileName: 'export' },
+      { attachments: { splitAboveBytes: 1000, compressAboveBytes: false } }
+    );
+
+    assert.ok(files.length > 1);
+    assert.deepEqual(files.map(file => file.name), files.map((_, index) => `export.part${index + 1}.csv`));
+    files.forEach(file => assert.ok(file.content.toString().startsWith('id,note\r\n')));
+    const ids = files.flatMap(file => file.content.toString().trim().split('\r\n').slice(1));
+    assert.equal(ids.length, rows.length);
+    assert.ok(message.blocks.some(block => block.text?.text.includes(`(${files.length} parts)`)));
+  });
+
+  test('caps the size with a truncation marker', async () => {
+    const { files, message } = await upload(
+      { fileData: rows, fileType: 'csv' },
+      { attachments: { maxBytes: 500, compressAboveBytes: false } }
+    );
+
+    const lines = files[0].content.toString().trim().split('\r\n');
+    assert.match(lines[lines.length - 1], /^"\[truncated, \d+ rows omitted\]"$/);
+    assert.ok(message.blocks.some(block => /rows omitted/.test(block.text?.text || '')));
+  });
+
+  test('gzips above the threshold and reports both sizes', async () => {
+    const { files, message } = await upload(
+      { fileData: rows, fileType: 'csv' },
+      { attachments: { compressAboveBytes: 100 } }
+    );
+
+    assert.match(files[0].name, /\.csv\.gz$/);
+    assert.ok(zlib.gunzipSync(files[0].content).toString().startsWith('id,note\r\n'));
+    assert.ok(message.blocks.some(block => /\*Size:\* [\d.]+ KB → [\d.]+ KB \(gzip\)/.test(block.text?.text || '')));
+  });
+
+  test('zips into a single-entry archive with a valid CRC-32', async () => {
+    const { files, message } = await upload(
+      { fileData: '123456789', fileType: 'txt', fileName: 'check' },
+      { attachments: { compressAboveBytes: 1, compression: 'zip' } }
+    );
+
+    const zip = files[0].content;
+    assert.equal(files[0].name, 'check.txt.zip');
+    assert.equal(zip.readUInt32LE(0), 0x04034b50);
+    assert.equal(zip.readUInt16LE(8), 8);
+    // The standard CRC-32 check value of "123456789"
+    assert.equal(zip.readUInt32LE(14), 0xcbf43926);
+    assert.equal(zip.readUInt32LE(22), 9);
+
+    const nameLength = zip.readUInt16LE(26);
+    const compressedLength = zip.readUInt32LE(18);
+    assert.equal(zip.subarray(30, 30 + nameLength).toString(), 'check.txt');
+    const dataStart = 30 + nameLength;
+    assert.equal(zlib.inflateRawSync(zip.subarray(dataStart, dataStart + compressedLength)).toString(), '123456789');
+
+    // The central directory repeats the entry and the end record points at it
+    const end = zip.subarray(zip.length - 22);
+    assert.equal(end.readUInt32LE(0), 0x06054b50);
+    const central = zip.subarray(end.readUInt32LE(16));
+    assert.equal(central.readUInt32LE(0), 0x02014b50);
+    assert.equal(central.readUInt32LE(16), 0xcbf43926);
+    assert.equal(end.readUInt32LE(12), 46 + nameLength);
+    assert.ok(message.blocks.some(block => /\(zip\)/.test(block.text?.text || '')));
+  });
+
+  test('compresses only the parts still over the threshold', async () => {
+    const { files } = await upload(
+      { fileData: rows, fileType: 'csv', fileName: 'export' },
+      { attachments: { splitAboveBytes: 1400, compressAboveBytes: 1000 } }
+    );
+
+    // The last part only holds what was left over
+    assert.deepEqual(files.map(file => file.name), ['export.part1.csv.gz', 'export.part2.csv']);
+    const ids = files.flatMap(file => (file.name.endsWith('.gz') ? zlib.gunzipSync(file.content) : file.content)
+      .toString().trim().split('\r\n').slice(1));
+    assert.equal(ids.length, rows.length);
+  });
+
+  test('cuts other formats at the byte limit', async () => {
+    const { files } = await upload(
+      { fileData: 'x'.repeat(1000), fileType: 'txt' },
+      { attachments: { maxBytes: 100, compressAboveBytes: false } }
+    );
+
+    assert.equal(files[0].content.toString(), `${'x'.repeat(100)}\n\n[truncated, 900 bytes omitted]\n`);
+  });
+
+  test('init rejects unknown compression', () => {
+    assert.throws(() => createTestAlerter({ attachments: { compression: 'bzip2' as any } }), /attachments\.compression must be one of: gzip, zip/);
+  });
+});
+
+describe('Temp files', () => {
+  test('cleanupTempFiles removes old files and leaves directories alone', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-'));
+    const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    for (const name of ['old.json', 'fresh.json']) fs.writeFileSync(path.join(tempDir, name), '{}');
+    fs.mkdirSync(path.join(tempDir, 'outbox'));
+    fs.utimesSync(path.join(tempDir, 'old.json'), twoDaysAgo, twoDaysAgo);
+    fs.utimesSync(path.join(tempDir, 'fresh.json'), twoHoursAgo, twoHoursAgo);
+    fs.utimesSync(path.join(tempDir, 'outbox'), twoDaysAgo, twoDaysAgo);
+    const { alerter } = createTestAlerter({ attachmentStorage: 'disk', tempDir });
+
+    try {
+      assert.equal(await alerter.cleanupTempFiles(), 1);
+      assert.deepEqual(fs.readdirSync(tempDir).sort(), ['fresh.json', 'outbox']);
+      assert.equal(await alerter.cleanupTempFiles(1), 1);
+      assert.deepEqual(fs.readdirSync(tempDir), ['outbox']);
+    } finally {
+      await alerter.close();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
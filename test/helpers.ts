@@ -0,0 +1,21 @@
+import { createAlerter, FakeSlackClient } from '../src';
+import type { AlerterConfig } from '../src';
+
+let count = 0;
+
+/**
+ * A fresh alerter wired to a FakeSlackClient, with attachments kept in memory
+ */
+export function createTestAlerter(options: Partial<AlerterConfig> = {}) {
+  const slack = new FakeSlackClient();
+  const alerter = createAlerter({
+    name: `test-${++count}`,
+    slackToken: 'xoxb-test',
+    channelName: '#alerts',
+    channelId: 'C0TEST',
+    attachmentStorage: 'memory',
+    slackClient: slack,
+    ...options
+  });
+  return { alerter, slack };
+}
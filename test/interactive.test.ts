@@ -0,0 +1,138 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createTestAlerter } from './helpers';
+import type { AlertActionEvent } from '../src';
+
+const interactive = { signingSecret: 'test-signing-secret' };
+
+function actionsBlock(blocks: any[]) {
+  return blocks.find(block => block.type === 'actions');
+}
+
+describe('Interactive alerts', () => {
+  test('buttons carry the fingerprint of the alert', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive });
+
+    await alerter.high('Payment failed', { fingerprint: 'payments' });
+    await alerter.high('No buttons', { actions: false });
+
+    const [withButtons, without] = slack.getSentMessages();
+    const block = actionsBlock(withButtons.blocks);
+    assert.deepEqual(block.elements.map((element: any) => element.text.text), ['Acknowledge', 'Resolve', 'Snooze 1h', 'Assign to me']);
+    assert.ok(block.elements.every((element: any) => element.value === 'payments'));
+    assert.equal(actionsBlock(without.blocks), undefined);
+    await alerter.close();
+  });
+
+  test('alerts have no buttons unless enabled', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.high('Plain');
+
+    assert.equal(actionsBlock(slack.getSentMessages()[0].blocks), undefined);
+    await alerter.close();
+  });
+
+  test('acknowledge updates the message and keeps the buttons', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive });
+    const events: AlertActionEvent[] = [];
+    alerter.onAction(event => events.push(event));
+
+    await alerter.medium('Queue backed up');
+    const response = await alerter.testing.clickAction(slack.getSentMessages()[0], 'acknowledge', 'U0ALICE');
+
+    assert.deepEqual(response, { status: 200, body: '' });
+    const [update] = slack.getUpdates();
+    assert.equal(update.ts, slack.getSentMessages()[0].ts);
+    assert.equal(update.color, '#ffcc00');
+    assert.match(update.blocks[update.blocks.length - 2].elements[0].text, /^👀 \*Acknowledged\* by <@U0ALICE>/);
+    assert.ok(actionsBlock(update.blocks));
+    assert.equal(events[0].action, 'acknowledge');
+    assert.equal(events[0].userId, 'U0ALICE');
+    await alerter.close();
+  });
+
+  test('resolve removes the buttons and a recurrence alerts again', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive, dedupe: { windowMs: 60000 } });
+
+    await alerter.high('Disk full');
+    await alerter.testing.clickAction(slack.getSentMessages()[0], 'resolve');
+    const again = await alerter.high('Disk full');
+
+    const [update] = slack.getUpdates();
+    assert.match(update.blocks[update.blocks.length - 1].elements[0].text, /^✅ \*Resolved\* by <@U0TESTER>/);
+    assert.equal(actionsBlock(update.blocks), undefined);
+    assert.equal(again.status, 'sent');
+    await alerter.close();
+  });
+
+  test('snooze suppresses identical alerts only', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive: { ...interactive, snoozeMs: 30 * 60 * 1000 } });
+
+    await alerter.high('Flaky upstream');
+    const [message] = slack.getSentMessages();
+    assert.equal(actionsBlock(message.blocks).elements[2].text.text, 'Snooze 30m');
+    await alerter.testing.clickAction(message, 'snooze');
+
+    assert.equal((await alerter.high('Flaky upstream')).status, 'suppressed');
+    assert.equal((await alerter.high('Something else')).status, 'sent');
+    assert.match(slack.getUpdates()[0].blocks.at(-2).elements[0].text, /^😴 \*Snoozed\* by <@U0TESTER> until /);
+    await alerter.close();
+  });
+
+  test('rejects bad and stale signatures', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive });
+    await alerter.high('Signed');
+    const payload = { type: 'block_actions', actions: [] };
+
+    const { body, headers } = alerter.testing.signInteraction(payload);
+    const tampered = await alerter.handleInteraction(body.replace('block_actions', 'block_actionz'), headers);
+    const stale = alerter.testing.signInteraction(payload, Math.floor(Date.now() / 1000) - 600);
+
+    assert.equal(tampered.status, 401);
+    assert.equal((await alerter.handleInteraction(stale.body, stale.headers)).status, 401);
+    assert.equal((await alerter.handleInteraction(body, headers)).status, 200);
+    assert.equal(slack.getUpdates().length, 0);
+    await alerter.close();
+  });
+
+  test('the HTTP handler verifies and applies a signed fixture', async () => {
+    const { alerter, slack } = createTestAlerter({ interactive });
+    await alerter.low('Over HTTP', { fingerprint: 'http' });
+    const { ts, channel } = slack.getSentMessages()[0];
+
+    const server = http.createServer(alerter.interactionHandler());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const { body, headers } = alerter.testing.signInteraction({
+        type: 'block_actions',
+        user: { id: 'U0BOB', username: 'bob' },
+        container: { type: 'message', message_ts: ts, channel_id: channel },
+        actions: [{ type: 'button', block_id: 'alert_actions', action_id: 'alert_assign', value: 'http' }]
+      });
+      const response = await fetch(`http://127.0.0.1:${port}/slack/actions`, { method: 'POST', headers, body });
+      const unsigned = await fetch(`http://127.0.0.1:${port}/slack/actions`, { method: 'POST', body });
+
+      assert.equal(response.status, 200);
+      assert.equal(unsigned.status, 401);
+      assert.match(slack.getUpdates()[0].blocks[0].elements[0].text, /^🙋 \*Assigned\* to <@U0BOB>/);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+      await alerter.close();
+    }
+  });
+
+  test('requires a signing secret', () => {
+    const previous = process.env.SLACK_SIGNING_SECRET;
+    delete process.env.SLACK_SIGNING_SECRET;
+    try {
+      assert.throws(() => createTestAlerter({ interactive: true }), /interactive\.signingSecret \(or SLACK_SIGNING_SECRET\) is required/);
+    } finally {
+      if (previous !== undefined) process.env.SLACK_SIGNING_SECRET = previous;
+    }
+  });
+});
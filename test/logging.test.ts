@@ -0,0 +1,91 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import { createTestAlerter } from './helpers';
+import type { Logger, LogLevel } from '../src';
+
+/**
+ * A pino-style logger that keeps every entry
+ */
+function recordingLogger() {
+  const entries: { level: LogLevel; fields: Record<string, unknown>; message: string }[] = [];
+  const record = (level: LogLevel) => (fields: Record<string, unknown>, message: string) => {
+    entries.push({ level, fields, message });
+  };
+  const logger: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+  return { logger, entries };
+}
+
+describe('Logging', () => {
+  test('is silent without a logger', async () => {
+    const writes: unknown[] = [];
+    const original = [console.log, console.error];
+    console.log = console.error = (...args: unknown[]) => { writes.push(args); };
+
+    try {
+      const { alerter } = createTestAlerter();
+      await alerter.high('Quiet', { fileData: 'details' });
+      await alerter.close();
+    } finally {
+      [console.log, console.error] = original;
+    }
+
+    assert.deepEqual(writes, []);
+  });
+
+  test('importing the library prints nothing', () => {
+    const output = execFileSync(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', "require('./src')"], {
+      cwd: path.join(__dirname, '..'),
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    assert.equal(output, '');
+  });
+
+  test('sends structured entries at or above logLevel', async () => {
+    const { logger, entries } = recordingLogger();
+    const { alerter } = createTestAlerter({ name: 'logging-levels', logger, logLevel: 'debug' });
+
+    await alerter.high('Loud');
+    await alerter.close();
+
+    const posted = entries.find(entry => entry.message === 'Posted alert to Slack');
+    assert.equal(posted?.level, 'debug');
+    assert.equal(posted?.fields.alerter, 'logging-levels');
+    assert.equal(posted?.fields.severity, 'HIGH');
+    assert.equal(posted?.fields.channel, '#alerts');
+    assert.ok(entries.some(entry => entry.level === 'info' && entry.message === 'Initialized'));
+  });
+
+  test('the default level drops debug entries', async () => {
+    const { logger, entries } = recordingLogger();
+    const { alerter } = createTestAlerter({ logger });
+
+    await alerter.high('Loud');
+    await alerter.close();
+
+    assert.ok(entries.length > 0);
+    assert.ok(entries.every(entry => entry.level !== 'debug'));
+  });
+
+  test('winston loggers get a single log() call per entry', async () => {
+    const logged: Record<string, unknown>[] = [];
+    const winston = { transports: [], log: (entry: Record<string, unknown>) => { logged.push(entry); } };
+    const { alerter, slack } = createTestAlerter({ logger: winston as any });
+    alerter.onError(() => { });
+    slack.failNext('files.uploadV2', 'not_allowed');
+
+    await alerter.low('Upload', { fileData: 'x' });
+    await alerter.close();
+
+    const failed = logged.find(entry => entry.message === 'Slack file upload failed');
+    assert.equal(failed?.level, 'warn');
+    assert.equal(failed?.error, 'Slack API failed: not_allowed');
+  });
+
+  test('rejects a logger without the level methods', () => {
+    assert.throws(() => createTestAlerter({ logger: { info() { } } as any }), /logger must have debug, info, warn and error methods/);
+  });
+});
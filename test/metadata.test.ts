@@ -0,0 +1,89 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import { createTestAlerter } from './helpers';
+
+const metadata = { environment: 'production', release: '1.4.2', serviceName: 'billing', serverName: 'pod-7f9c' };
+
+function originText(blocks: any[]): string | undefined {
+  return blocks[blocks.length - 1].elements[1]?.text;
+}
+
+describe('Alert metadata', () => {
+  test('is shown in the context block', async () => {
+    const { alerter, slack } = createTestAlerter(metadata);
+
+    await alerter.high('Checkout failed');
+
+    assert.equal(originText(slack.getSentMessages()[0].blocks), '*Service:* billing · *Release:* 1.4.2 · *Env:* production · *Host:* pod-7f9c');
+    await alerter.close();
+  });
+
+  test('is detected from environment variables, package.json and the hostname', async () => {
+    const previous = { RELEASE: process.env.RELEASE, APP_ENV: process.env.APP_ENV };
+    process.env.RELEASE = 'abc1234';
+    process.env.APP_ENV = 'staging';
+
+    try {
+      const { alerter, slack } = createTestAlerter();
+      await alerter.low('Detected');
+
+      const text = originText(slack.getSentMessages()[0].blocks);
+      assert.equal(text, `*Service:* ${require('../package.json').name} · *Release:* abc1234 · *Env:* staging · *Host:* ${os.hostname()}`);
+      await alerter.close();
+    } finally {
+      Object.entries(previous).forEach(([name, value]) => {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      });
+    }
+  });
+
+  test('routes can match environment, release and server name', async () => {
+    const { alerter, slack } = createTestAlerter({
+      ...metadata,
+      routes: [
+        { match: { environment: 'staging' }, channels: [{ channelName: '#staging', channelId: 'C0STAGE' }] },
+        { match: { environment: 'production', serverName: ['pod-7f9c', 'pod-8a1b'] }, channels: [{ channelName: '#prod', channelId: 'C0PROD' }] }
+      ]
+    });
+
+    await alerter.high('Routed');
+
+    assert.equal(slack.getSentMessages()[0].channel, '#prod');
+    await alerter.close();
+  });
+
+  test('severitiesByEnvironment drops the rest', async () => {
+    const { alerter, slack } = createTestAlerter({
+      environment: 'development',
+      severitiesByEnvironment: { development: ['HIGH'], production: ['HIGH', 'MEDIUM', 'LOW'] }
+    });
+
+    assert.equal((await alerter.low('Noise')).status, 'suppressed');
+    assert.equal((await alerter.medium('Noise')).status, 'suppressed');
+    assert.equal((await alerter.high('Real')).status, 'sent');
+    assert.equal(slack.getSentMessages().length, 1);
+    await alerter.close();
+  });
+
+  test('is written into JSON attachments and available to templates', async () => {
+    const { alerter, slack } = createTestAlerter({
+      ...metadata,
+      template: [{ type: 'section', text: { type: 'mrkdwn', text: '{{serviceName}}@{{release}} on {{serverName}}: {{message}}' } }]
+    });
+
+    await alerter.medium('Slow', { fileData: { ms: 950 }, fileType: 'json' });
+
+    assert.equal(slack.getSentMessages()[0].blocks[0].text.text, 'billing@1.4.2 on pod-7f9c: Slow');
+    const { _metadata } = JSON.parse(slack.getUploadedFiles()[0].content.toString());
+    assert.deepEqual({ ..._metadata, generatedAt: undefined }, { ...metadata, generatedAt: undefined, source: 'error-notifier', format: 'json' });
+    await alerter.close();
+  });
+
+  test('rejects invalid values', () => {
+    assert.throws(() => createTestAlerter({ release: 42 as any }), /release must be a non-empty string/);
+    assert.throws(() => createTestAlerter({ severitiesByEnvironment: { development: ['CRITICAL'] } as any }),
+      /severitiesByEnvironment\.development must be a list of HIGH, MEDIUM and LOW/);
+  });
+});
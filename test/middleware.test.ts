@@ -0,0 +1,130 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import Fastify from 'fastify';
+import Koa from 'koa';
+import { expressErrorHandler, expressRequestScope, fastifyErrorPlugin, koaErrorMiddleware } from '../src';
+import { createTestAlerter } from './helpers';
+
+const HEADERS = { authorization: 'Bearer secret', 'x-request-id': 'req-42' };
+
+function failure(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * GET a path from a listening server, resolving with the response status
+ */
+async function get(server: http.Server, path: string): Promise<number> {
+  const { port } = server.address() as AddressInfo;
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, { headers: HEADERS });
+  await response.arrayBuffer();
+  return response.status;
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+/**
+ * The alert's comment and its request-context attachment
+ */
+function reported(slack: ReturnType<typeof createTestAlerter>['slack']) {
+  const [message] = slack.getSentMessages();
+  const comment = message.blocks.map(block => block.text?.text).find(text => text?.startsWith('*Comment:*'));
+  return { message, comment, context: JSON.parse(slack.getUploadedFiles()[0].content.toString()) };
+}
+
+describe('Framework middleware', () => {
+  test('Express reports 5xx errors with the request context', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const app = express();
+    app.use(expressRequestScope({ alerter }));
+    app.get('/orders/:id', () => {
+      throw failure('Payment gateway down', 502);
+    });
+    app.use(expressErrorHandler({ alerter }));
+    app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      res.status(502).end();
+    });
+    const server = app.listen(0);
+
+    assert.equal(await get(server, '/orders/7'), 502);
+    await alerter.flush();
+
+    const { message, comment, context } = reported(slack);
+    assert.match(message.text, /^🚨 HIGH Alert: Payment gateway down/);
+    assert.equal(comment, '*Comment:* GET /orders/:id → 502 (request req-42)');
+    assert.equal(context.url, '/orders/7');
+    assert.equal(context.headers.authorization, '[REDACTED]');
+    await close(server);
+    await alerter.close();
+  });
+
+  test('Fastify reports errors through its onError hook', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const app = Fastify();
+    await app.register(fastifyErrorPlugin, { alerter });
+    app.get('/invoices/:id', async () => {
+      throw failure('Invoice store unavailable', 503);
+    });
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    assert.equal(await get(app.server, '/invoices/9'), 503);
+    await alerter.flush();
+
+    const { comment, context } = reported(slack);
+    assert.equal(comment, '*Comment:* GET /invoices/:id → 503 (request req-42)');
+    assert.equal(context.status, 503);
+    assert.equal(context.headers.authorization, '[REDACTED]');
+    await app.close();
+    await alerter.close();
+  });
+
+  test('Koa reports the error and re-throws it', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const app = new Koa();
+    app.silent = true;
+    app.use(koaErrorMiddleware({ alerter, alertOn4xx: [422] }));
+    app.use(ctx => {
+      if (ctx.path === '/missing') ctx.throw(404);
+      throw failure('Validation failed', 422);
+    });
+    const server = app.listen(0);
+
+    assert.equal(await get(server, '/missing'), 404);
+    assert.equal(await get(server, '/signup'), 422);
+    await alerter.flush();
+
+    assert.equal(slack.getSentMessages().length, 1);
+    const { message, comment } = reported(slack);
+    assert.match(message.text, /^ℹ️ LOW Alert: Validation failed/);
+    assert.equal(comment, '*Comment:* GET /signup → 422 (request req-42)');
+    await close(server);
+    await alerter.close();
+  });
+
+  test('severityForStatus can skip or downgrade alerts', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const app = express();
+    app.get('/:status', req => {
+      throw failure('Failed', Number(req.params.status));
+    });
+    app.use(expressErrorHandler({ alerter, severityForStatus: status => status === 503 ? null : 'MEDIUM' }));
+    app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      res.status(500).end();
+    });
+    const server = app.listen(0);
+
+    await get(server, '/503');
+    await get(server, '/500');
+    await alerter.flush();
+
+    assert.equal(slack.getSentMessages().length, 1);
+    assert.match(slack.getSentMessages()[0].text, /MEDIUM Alert/);
+    await close(server);
+    await alerter.close();
+  });
+});
@@ -0,0 +1,153 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestAlerter } from './helpers';
+
+let root: string;
+
+/**
+ * Resolve once `check` passes - retries run on their own timer
+ */
+async function eventually(check: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) assert.fail('Timed out waiting for the outbox');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('Retry outbox', () => {
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('a failed delivery is persisted and replayed by the next process', async () => {
+    const tempDir = path.join(root, 'restart');
+    const first = createTestAlerter({ attachmentStorage: 'disk', tempDir, retry: { baseDelayMs: 300 } });
+    first.slack.failNext('chat.postMessage', 'service_unavailable');
+
+    const result = await first.alerter.high('Payment provider down', { fileData: { orderId: 42 }, fileType: 'json' });
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.transports[0].queuedForRetry, true);
+    assert.equal(first.alerter.getRetryQueueDepth(), 1);
+    const [entryFile] = fs.readdirSync(path.join(tempDir, 'outbox'));
+    const entry = JSON.parse(fs.readFileSync(path.join(tempDir, 'outbox', entryFile), 'utf8'));
+    assert.equal(entry.lastError, 'Slack API failed: service_unavailable');
+    assert.equal(entry.payload.message, 'Payment provider down');
+    // The attachment is stored once, as the built file
+    assert.equal(entry.payload.options.fileData, undefined);
+    assert.equal(entry.payload.files.length, 1);
+    await first.alerter.close();
+
+    // A new process picks the entry up once it is due, attachment included
+    const second = createTestAlerter({ attachmentStorage: 'disk', tempDir, retry: { baseDelayMs: 10 } });
+    assert.equal(second.alerter.getRetryQueueDepth(), 1);
+    await eventually(() => second.alerter.getRetryQueueDepth() === 0);
+
+    assert.match(second.slack.getSentMessages()[0].text, /Payment provider down/);
+    assert.equal(JSON.parse(second.slack.getUploadedFiles()[0].content.toString()).orderId, 42);
+    assert.deepEqual(fs.readdirSync(path.join(tempDir, 'outbox')), []);
+    await second.alerter.close();
+  });
+
+  test('an outbox that cannot be written does not fail what was delivered', async () => {
+    const tempDir = path.join(root, 'unwritable');
+    const failing = { name: 'pager', send: async () => { throw new Error('pager offline'); } };
+    const { alerter, slack } = createTestAlerter({ attachmentStorage: 'disk', tempDir, retry: true, transports: [failing] });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+    // Entries can no longer be written under <tempDir>/outbox
+    fs.rmSync(path.join(tempDir, 'outbox'), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'outbox'), '');
+
+    const result = await alerter.high('Payment provider down');
+
+    assert.equal(result.status, 'partial');
+    assert.deepEqual(result.transports.map(transport => [transport.transport, transport.ok, transport.queuedForRetry]),
+      [['slack', true, undefined], ['pager', false, false]]);
+    assert.equal(slack.getSentMessages().length, 1);
+    assert.match(errors[1].message, /^Could not queue pager delivery for retry: ENOTDIR/);
+    await alerter.close();
+  });
+
+  test('only the routed channels that failed are retried', async () => {
+    const { alerter, slack } = createTestAlerter({
+      retry: { baseDelayMs: 10 },
+      routes: [{ channels: [{ channelName: '#payments', channelId: 'C0PAY' }, { channelName: '#oncall', channelId: 'C0CALL' }] }]
+    });
+    alerter.onError(() => { });
+    // #payments is posted to first
+    slack.failNext('chat.postMessage');
+
+    const result = await alerter.high('Refunds stuck');
+    assert.equal(result.status, 'failed');
+    assert.match(result.errors[0].message, /^Slack API failed: internal_error \(1 of 2 channels\)$/);
+    await eventually(() => alerter.getRetryQueueDepth() === 0);
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#oncall', '#payments']);
+    await alerter.close();
+  });
+
+  test('a failed upload is retried without posting the message again', async () => {
+    const { alerter, slack } = createTestAlerter({ retry: { baseDelayMs: 10 } });
+    alerter.onError(() => { });
+    slack.failNext('files.uploadV2');
+
+    await alerter.medium('Export failed', { fileData: 'rows', fileType: 'txt' });
+    await eventually(() => alerter.getRetryQueueDepth() === 0);
+
+    assert.equal(slack.getSentMessages().length, 1);
+    assert.equal(slack.getUploadedFiles().length, 1);
+    assert.equal(slack.getUploadedFiles()[0].threadTs, slack.getSentMessages()[0].ts);
+    await alerter.close();
+  });
+
+  test('deliveries out of attempts are dead-lettered and can be requeued', async () => {
+    const { alerter, slack } = createTestAlerter({ retry: { maxAttempts: 2, baseDelayMs: 10 } });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+    slack.failNext('chat.postMessage');
+    slack.failNext('chat.postMessage', 'channel_not_found');
+
+    await alerter.low('Queue backed up');
+    await eventually(() => alerter.getDeadLetters().length === 1);
+
+    assert.equal(alerter.getRetryQueueDepth(), 0);
+    assert.deepEqual({ ...alerter.getDeadLetters()[0], id: undefined, createdAt: undefined }, {
+      id: undefined,
+      createdAt: undefined,
+      transport: 'slack',
+      attempts: 2,
+      lastError: 'Slack API failed: channel_not_found',
+      severity: 'LOW',
+      message: 'Queue backed up'
+    });
+    assert.match(errors[errors.length - 1].message, /^Delivery via slack dead-lettered after 2 attempts: Slack API failed: channel_not_found$/);
+
+    assert.equal(alerter.requeueDeadLetters(), 1);
+    await eventually(() => alerter.getRetryQueueDepth() === 0);
+    assert.equal(alerter.getDeadLetters().length, 0);
+    assert.equal(slack.getSentMessages().length, 1);
+    await alerter.close();
+  });
+
+  test('with memory storage nothing is written to disk', async () => {
+    const tempDir = path.join(root, 'memory');
+    const { alerter, slack } = createTestAlerter({ tempDir, retry: { maxAttempts: 1 } });
+    alerter.onError(() => { });
+    slack.failNext('chat.postMessage');
+
+    await alerter.high('Kept in memory', { fileData: { id: 1 }, fileType: 'json' });
+
+    assert.equal(alerter.getDeadLetters().length, 1);
+    assert.equal(fs.existsSync(tempDir), false);
+    await alerter.close();
+  });
+});
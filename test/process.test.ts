@@ -0,0 +1,145 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { createTestAlerter } from './helpers';
+
+// Untyped access, so tests can raise any process event
+const processEvents: EventEmitter = process;
+const EVENTS = ['uncaughtException', 'unhandledRejection', 'warning', 'SIGTERM'] as const;
+
+/**
+ * Listeners per event, leaving out the one the domain module keeps on uncaughtException
+ */
+function listenerCounts(): number[] {
+  return EVENTS.map(event => processEvents.listeners(event).filter(listener => listener.name !== 'domainUncaughtExceptionClear').length);
+}
+
+let realExit: typeof process.exit;
+let exited: Promise<number | undefined>;
+let previousListeners: Map<string, Function[]>;
+
+describe('Process error capture', () => {
+  /**
+   * The test runner has its own crash handlers - take them out, so ours are the
+   * sole listeners, and stub process.exit
+   */
+  beforeEach(() => {
+    previousListeners = new Map(EVENTS.map(event => [event, process.rawListeners(event)]));
+    EVENTS.forEach(event => process.removeAllListeners(event));
+
+    realExit = process.exit;
+    exited = new Promise(resolve => {
+      process.exit = ((code?: number) => resolve(code)) as typeof process.exit;
+    });
+  });
+
+  afterEach(() => {
+    process.exit = realExit;
+    EVENTS.forEach(event => {
+      process.removeAllListeners(event);
+      previousListeners.get(event)!.forEach(listener => process.on(event, listener as (...args: any[]) => void));
+    });
+  });
+
+  test('an uncaught exception is alerted and flushed before exiting with 1', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors();
+
+    processEvents.emit('uncaughtException', new TypeError('Cannot read properties of undefined'), 'uncaughtException');
+
+    assert.equal(await exited, 1);
+    assert.match(slack.getSentMessages()[0].text, /^🚨 HIGH Alert: Cannot read properties of undefined/);
+    const attached = JSON.parse(slack.getUploadedFiles()[0].content.toString());
+    assert.equal(attached.event, 'uncaughtException');
+    assert.equal(attached.error.name, 'TypeError');
+    assert.equal(attached.pid, process.pid);
+    stop();
+    await alerter.close();
+  });
+
+  test('an unhandled rejection with a non-error reason is wrapped', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors();
+
+    processEvents.emit('unhandledRejection', 'lost connection', Promise.resolve());
+
+    assert.equal(await exited, 1);
+    assert.match(slack.getSentMessages()[0].text, /HIGH Alert: Unhandled promise rejection: lost connection/);
+    stop();
+    await alerter.close();
+  });
+
+  test('warnings are MEDIUM by default, never flush and never exit', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors();
+    let exitCode: number | undefined | 'none' = 'none';
+    exited.then(code => { exitCode = code; });
+
+    processEvents.emit('warning', Object.assign(new Error('Possible EventEmitter memory leak detected'), { name: 'MaxListenersExceededWarning' }));
+    await alerter.flush();
+
+    assert.match(slack.getSentMessages()[0].text, /^⚠️ MEDIUM Alert: Possible EventEmitter memory leak detected/);
+    assert.equal(exitCode, 'none');
+    stop();
+    await alerter.close();
+  });
+
+  test('warningSeverity can lower warnings to LOW', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors({ warningSeverity: 'LOW', signals: [] });
+
+    processEvents.emit('warning', new Error('Deprecated API'));
+    await alerter.flush();
+
+    assert.match(slack.getSentMessages()[0].text, /^ℹ️ LOW Alert: Deprecated API/);
+    stop();
+    await alerter.close();
+  });
+
+  test('signals exit with 128 + the signal number', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors({ signals: ['SIGTERM'] });
+
+    processEvents.emit('SIGTERM', 'SIGTERM');
+
+    assert.equal(await exited, 143);
+    assert.match(slack.getSentMessages()[0].text, /HIGH Alert: Process received SIGTERM/);
+    stop();
+    await alerter.close();
+  });
+
+  test('the returned function removes every hook', async () => {
+    const { alerter } = createTestAlerter();
+
+    const before = listenerCounts();
+
+    const stop = alerter.captureProcessErrors();
+    assert.deepEqual(listenerCounts(), before.map(count => count + 1));
+    assert.throws(() => alerter.captureProcessErrors(), /already installed/);
+
+    stop();
+    assert.deepEqual(listenerCounts(), before);
+
+    // Can be installed again once removed
+    alerter.captureProcessErrors({ uncaughtException: false })();
+    await alerter.close();
+  });
+
+  test('an app with its own handler keeps control of shutdown', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const stop = alerter.captureProcessErrors();
+    const own = () => { };
+    process.on('uncaughtException', own);
+    let exitCode: number | undefined | 'none' = 'none';
+    exited.then(code => { exitCode = code; });
+
+    processEvents.emit('uncaughtException', new Error('Handled elsewhere'), 'uncaughtException');
+    await alerter.flush();
+
+    assert.equal(slack.getSentMessages().length, 1);
+    assert.equal(exitCode, 'none');
+    process.off('uncaughtException', own);
+    stop();
+    await alerter.close();
+  });
+});
@@ -0,0 +1,101 @@
+import { test, describe, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+
+describe('Rate limiting', () => {
+  test('drop discards alerts over the per-severity budget only', async () => {
+    const { alerter, slack } = createTestAlerter({ rateLimit: { perSeverity: { LOW: 2 }, overflow: 'drop' } });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    const statuses = [];
+    for (let i = 1; i <= 3; i++) {
+      statuses.push((await alerter.low(`Slow query ${i}`)).status);
+    }
+    statuses.push((await alerter.high('Database down')).status);
+
+    assert.deepEqual(statuses, ['sent', 'sent', 'rate-limited', 'sent']);
+    assert.equal(slack.getSentMessages().length, 3);
+    assert.deepEqual(errors.map(error => error.message), ['Rate limit exceeded: dropped LOW alert for #alerts (Slow query 3)']);
+    await alerter.close();
+  });
+
+  test('channel budgets are kept per channel name', async () => {
+    const { alerter, slack } = createTestAlerter({ rateLimit: { perChannel: { '#payments': 1 }, overflow: 'drop' } });
+    alerter.onError(() => { });
+    const payments = { channelName: '#payments', channelId: 'C0PAY' };
+
+    assert.equal((await alerter.high('Refund failed', payments)).status, 'sent');
+    assert.equal((await alerter.high('Refund failed again', payments)).status, 'rate-limited');
+    assert.equal((await alerter.high('Disk full')).status, 'sent');
+    assert.equal((await alerter.high('Disk still full')).status, 'sent');
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#payments', '#alerts', '#alerts']);
+    await alerter.close();
+  });
+
+  test('an alert needs budget from both its severity and its channel', async () => {
+    const { alerter } = createTestAlerter({ rateLimit: { perSeverity: { HIGH: 2 }, perChannel: 1, overflow: 'drop' } });
+    alerter.onError(() => { });
+
+    assert.equal((await alerter.high('First')).status, 'sent');
+    // Severity budget left, channel budget spent - and no severity token is taken for it
+    assert.equal((await alerter.high('Second')).status, 'rate-limited');
+    assert.equal((await alerter.high('Elsewhere', { channelName: '#ops', channelId: 'C0OPS' })).status, 'sent');
+    assert.equal((await alerter.high('Elsewhere again', { channelName: '#infra', channelId: 'C0INF' })).status, 'rate-limited');
+    await alerter.close();
+  });
+
+  test('queue holds alerts back until the bucket refills, in order', async () => {
+    // Buckets refill by Date.now(), the drain waits on setTimeout - move both together
+    let now = Date.now();
+    const clock = mock.method(Date, 'now', () => now);
+    mock.timers.enable(['setTimeout']);
+    const { alerter, slack } = createTestAlerter({ rateLimit: { perSeverity: { MEDIUM: 1 }, maxQueueSize: 2 } });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    try {
+      assert.equal((await alerter.medium('Retry storm 1')).status, 'sent');
+      const second = alerter.medium('Retry storm 2');
+      const third = alerter.medium('Retry storm 3');
+      assert.equal((await alerter.medium('Retry storm 4')).status, 'rate-limited');
+      assert.match(errors[0].message, /^Rate limit exceeded: queue full, dropped MEDIUM alert for #alerts/);
+
+      // One token a minute
+      now += 60000;
+      mock.timers.tick(60000);
+      assert.equal((await second).status, 'sent');
+      assert.equal(slack.getSentMessages().length, 2);
+
+      now += 60000;
+      mock.timers.tick(60000);
+      assert.equal((await third).status, 'sent');
+      assert.deepEqual(slack.getSentMessages().map(message => message.text.match(/Retry storm \d/)![0]), ['Retry storm 1', 'Retry storm 2', 'Retry storm 3']);
+    } finally {
+      mock.timers.reset();
+      clock.mock.restore();
+    }
+    await alerter.close();
+  });
+
+  test('digest rolls shed alerts into one summary per channel', async () => {
+    const { alerter, slack } = createTestAlerter({ rateLimit: { perSeverity: { LOW: 1, MEDIUM: 1 }, overflow: 'digest' } });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    await alerter.low('Cache miss');
+    await alerter.medium('Slow checkout');
+    assert.equal((await alerter.low('Cache miss')).status, 'rate-limited');
+    await alerter.low('Cache miss');
+    await alerter.medium('Slow checkout again');
+    // Sent when budget returns, or straight away on flush
+    await alerter.flush();
+
+    assert.deepEqual(errors.map(error => error.message), ['Rate limit exceeded: shedding alerts for #alerts into a digest']);
+    const digest = slack.getSentMessages()[2];
+    assert.match(digest.text, /^⚠️ MEDIUM Alert: Rate limit digest: 3 alert\(s\) were held back/);
+    assert.ok(digest.blocks.some(block => block.text?.text?.endsWith(' • 2× [LOW] Cache miss\n• 1× [MEDIUM] Slow checkout again')));
+    await alerter.close();
+  });
+});
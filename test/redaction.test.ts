@@ -0,0 +1,103 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+import { registerFileFormat } from '../src';
+import type { AlertOptions, AlerterConfig } from '../src';
+
+class PaymentError extends Error {
+  name = 'PaymentError';
+  constructor(message: string, public gatewayToken: string) {
+    super(message);
+  }
+}
+
+// Records what the attachment writer was handed, after redaction
+let probed: any;
+registerFileFormat({
+  name: 'probe',
+  serialize: data => {
+    probed = data;
+    return 'probed';
+  }
+});
+
+/**
+ * Send one alert with redaction on and return the uploaded attachment's text
+ */
+async function attachment(options: AlertOptions, alerterOptions: Partial<AlerterConfig> = {}): Promise<string> {
+  const { alerter, slack } = createTestAlerter({ redact: true, ...alerterOptions });
+  const result = await alerter.high('Checkout failed', options);
+  await alerter.close();
+
+  assert.equal(result.status, 'sent', result.errors.map(error => error.message).join('; ') || undefined);
+  return slack.getUploadedFiles()[0].content.toString();
+}
+
+/**
+ * A JSON attachment without the `_metadata` the writer adds
+ */
+function fields(text: string): Record<string, unknown> {
+  const { _metadata, ...rest } = JSON.parse(text);
+  return rest;
+}
+
+describe('Redaction', () => {
+  test('keys match on word boundaries, not substrings', async () => {
+    const attached = fields(await attachment({
+      fileData: {
+        accessToken: 'a', refresh_token: 'b', 'x-api-key': 'c', secretKey: 'd', passwordHash: 'e', tokens: ['f'],
+        tokenCount: 3, secretary: 'Ann', passwordPolicy: 'strong', keyboard: 'qwerty'
+      },
+      fileType: 'json'
+    }));
+
+    assert.deepEqual(attached, {
+      accessToken: '[REDACTED]', refresh_token: '[REDACTED]', 'x-api-key': '[REDACTED]', secretKey: '[REDACTED]',
+      passwordHash: '[REDACTED]', tokens: '[REDACTED]',
+      tokenCount: 3, secretary: 'Ann', passwordPolicy: 'strong', keyboard: 'qwerty'
+    });
+  });
+
+  test('custom keys are words too, and global patterns match every key', async () => {
+    const attached = fields(await attachment({
+      fileData: { dateOfBirth: '1990-01-01', date_of_birth: '1990-01-01', birthday: 'May', 'x-internal-a': 1, 'x-internal-b': 2, 'x-internal-c': 3 },
+      fileType: 'json'
+    }, { redact: { keys: ['dateOfBirth', /^x-internal-/g] } }));
+
+    assert.deepEqual(attached, {
+      dateOfBirth: '[REDACTED]', date_of_birth: '[REDACTED]', birthday: 'May',
+      'x-internal-a': '[REDACTED]', 'x-internal-b': '[REDACTED]', 'x-internal-c': '[REDACTED]'
+    });
+  });
+
+  test('detectors scrub values, leaving numbers that fail the Luhn check', async () => {
+    const text = await attachment({
+      fileData: 'card 4111 1111 1111 1111, order 1234567890123, mail jane@example.com, slack xoxb-123-abc',
+      fileType: 'txt'
+    });
+
+    assert.equal(text, 'card [REDACTED], order 1234567890123, mail [REDACTED], slack [REDACTED]');
+  });
+
+  test('converted files are scrubbed by key after parsing', async () => {
+    const text = await attachment({
+      fileData: 'user,password,api_key,tokenCount\nann,hunter2,k-1,4\n',
+      from: 'csv',
+      to: 'tsv'
+    });
+
+    assert.equal(text, 'user\tpassword\tapi_key\ttokenCount\nann\t[REDACTED]\t[REDACTED]\t4\n');
+  });
+
+  test('redacted errors keep their class', async () => {
+    await attachment({
+      fileData: { failure: new PaymentError('Declined for jane@example.com', 'tok_123') },
+      fileType: 'probe'
+    });
+
+    assert.ok(probed.failure instanceof PaymentError);
+    assert.equal(probed.failure.name, 'PaymentError');
+    assert.equal(probed.failure.message, 'Declined for [REDACTED]');
+    assert.equal(probed.failure.gatewayToken, '[REDACTED]');
+  });
+});
@@ -0,0 +1,126 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+import type { AlertPayload, Transport } from '../src';
+
+/**
+ * A transport that holds every delivery until released
+ */
+class HeldTransport implements Transport {
+  readonly name = 'held';
+  delivered: string[] = [];
+  private waiting: (() => void)[] = [];
+
+  send(payload: AlertPayload): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push(() => {
+        this.delivered.push(payload.message);
+        resolve();
+      });
+    });
+  }
+
+  release(): void {
+    this.waiting.splice(0).forEach(deliver => deliver());
+  }
+}
+
+describe('Alert results', () => {
+  test('a sent alert resolves with the Slack message and file', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    const result = await alerter.high('Payment provider down', { fileData: { orderId: 42 }, fileType: 'json' });
+
+    const [message] = slack.getSentMessages();
+    const [file] = slack.getUploadedFiles();
+    assert.deepEqual(result, {
+      status: 'sent',
+      severity: 'HIGH',
+      ts: message.ts,
+      channel: '#alerts',
+      fileId: file.fileId,
+      transports: [{ transport: 'slack', ok: true, receipt: { channel: '#alerts', ts: message.ts, threadTs: undefined, fileId: file.fileId } }],
+      errors: []
+    });
+    await alerter.close();
+  });
+
+  test('one failing transport makes the result partial', async () => {
+    const failing: Transport = { name: 'pager', send: async () => { throw new Error('pager offline'); } };
+    const { alerter } = createTestAlerter({ transports: [failing] });
+    alerter.onError(() => { });
+
+    const result = await alerter.medium('Queue backed up');
+
+    assert.equal(result.status, 'partial');
+    assert.deepEqual(result.transports.map(transport => [transport.transport, transport.ok]), [['slack', true], ['pager', false]]);
+    assert.deepEqual(result.errors.map(error => error.message), ['pager offline']);
+    await alerter.close();
+  });
+
+  test('a broken attachment fails the alert without rejecting', async () => {
+    const { alerter } = createTestAlerter();
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    const result = await alerter.high('Import failed', { fileData: '{ not json', from: 'json', to: 'csv' });
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.errors[0].message, /^Failed to build alert: Invalid JSON string/);
+    assert.equal(errors[0], result.errors[0]);
+    await alerter.close();
+  });
+
+  test('alerts before init, after reset and after close resolve as not-initialized', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    alerter.reset();
+    assert.equal((await alerter.low('After reset')).status, 'not-initialized');
+
+    alerter.init('xoxb-test', '#alerts', 'C0TEST', { slackClient: slack, attachmentStorage: 'memory' });
+    assert.equal((await alerter.low('After init')).status, 'sent');
+
+    await alerter.close();
+    const closed = await alerter.low('After close');
+    assert.equal(closed.status, 'not-initialized');
+    assert.equal(closed.errors[0].message, 'error-notifier: Not initialized');
+    assert.equal(slack.getSentMessages().length, 1);
+  });
+
+  test('a rejected option leaves the alerter uninitialized and ready for another init', async () => {
+    const { alerter, slack } = createTestAlerter();
+    alerter.reset();
+    const init = (options: object) => alerter.init('xoxb-test', '#alerts', 'C0TEST', { slackClient: slack, attachmentStorage: 'memory', ...options });
+    const rejected: [object, RegExp][] = [
+      [{ transports: [{ name: 'broken' }] }, /Every transport must implement send\(payload\)/],
+      [{ dedupe: { windowMs: 0 } }, /dedupe\.windowMs must be greater than 0/],
+      [{ rateLimit: { perSeverity: { HIGH: -1 } } }, /rateLimit\.perSeverity\.HIGH must be a positive number/]
+    ];
+
+    for (const [options, message] of rejected) {
+      assert.throws(() => init(options), message);
+      assert.equal((await alerter.high('Disk full')).status, 'not-initialized');
+    }
+
+    init({});
+    assert.equal((await alerter.high('Disk full')).status, 'sent');
+    assert.equal(slack.getSentMessages().length, 1);
+    await alerter.close();
+  });
+
+  test('flush waits for fire-and-forget alerts, or reports the timeout', async () => {
+    const held = new HeldTransport();
+    const { alerter, slack } = createTestAlerter({ transports: [held] });
+
+    alerter.high('First');
+    alerter.low('Second');
+    assert.equal(await alerter.flush(50), false);
+    assert.deepEqual(held.delivered, []);
+
+    setTimeout(() => held.release(), 20);
+    assert.equal(await alerter.flush(5000), true);
+    assert.deepEqual(held.delivered, ['First', 'Second']);
+    assert.equal(slack.getSentMessages().length, 2);
+    await alerter.close();
+  });
+});
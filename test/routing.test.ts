@@ -0,0 +1,155 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+import type { SentMessage } from '../src';
+
+const oncall = { channelName: '#oncall', channelId: 'C0NCALL' };
+const payments = { channelName: '#payments', channelId: 'C0PAY' };
+const infra = { channelName: '#infra', channelId: 'C0INFRA' };
+
+class PaymentError extends Error {
+  name = 'PaymentError';
+}
+
+/**
+ * The mentions section routing adds below the header, if any
+ */
+function mentionsOf(message: SentMessage): string | undefined {
+  return message.blocks.map(block => block.text?.text || '').find(text => text.startsWith('<'));
+}
+
+describe('Routing', () => {
+  test('the first matching rule wins, unmatched alerts go to the default channel', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [
+        { match: { errorClass: 'PaymentError' }, channels: [payments] },
+        { match: { message: 'timeout|ECONNRESET' }, channels: [infra] },
+        { match: { severity: ['HIGH', 'MEDIUM'] }, channels: [oncall] }
+      ]
+    });
+
+    await alerter.high(new PaymentError('Card declined: upstream timeout'));
+    await alerter.low('Socket ECONNRESET');
+    await alerter.medium('Queue backed up');
+    await alerter.low('Cache miss');
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#payments', '#infra', '#oncall', '#alerts']);
+    await alerter.close();
+  });
+
+  test('continue applies later rules too, merging channels and mentions', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [
+        { match: { severity: 'HIGH' }, channels: [oncall], mentions: ['S0ONCALL', '@here'], continue: true },
+        { match: { errorClass: 'PaymentError' }, channels: [payments, oncall], mentions: ['U024BE7LH', '@here'] },
+        { channels: [infra] }
+      ]
+    });
+
+    await alerter.high(new PaymentError('Refund failed'));
+
+    const sent = Object.fromEntries(slack.getSentMessages().map(message => [message.channel, mentionsOf(message)]));
+    assert.deepEqual(sent, {
+      '#oncall': '<!subteam^S0ONCALL> <!here> <@U024BE7LH>',
+      '#payments': '<@U024BE7LH> <!here>'
+    });
+    await alerter.close();
+  });
+
+  test('a rule with only mentions pings in the default channel', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [{ match: { tags: { region: 'eu' }, service: 'billing' }, mentions: ['@channel', '<!subteam^S1|team>'] }]
+    });
+
+    alerter.setTag('region', 'eu');
+    await alerter.high('Invoice run failed', { service: 'billing' });
+    await alerter.high('Invoice run failed', { service: 'search' });
+    alerter.setTag('service', 'billing');
+    await alerter.high('Invoice run failed again');
+
+    const [billing, search, byTag] = slack.getSentMessages();
+    assert.equal(billing.channel, '#alerts');
+    assert.equal(mentionsOf(billing), '<!channel> <!subteam^S1|team>');
+    assert.equal(mentionsOf(search), undefined);
+    assert.equal(mentionsOf(byTag), '<!channel> <!subteam^S1|team>');
+    await alerter.close();
+  });
+
+  test('environment and release match the alerter metadata', async () => {
+    const { alerter, slack } = createTestAlerter({
+      environment: 'staging',
+      release: '1.4.0',
+      routes: [
+        { match: { environment: 'production' }, channels: [oncall] },
+        { match: { environment: ['staging', 'qa'], release: '1.4.0' }, channels: [infra] }
+      ]
+    });
+
+    await alerter.high('Migration failed');
+
+    assert.equal(slack.getSentMessages()[0].channel, '#infra');
+    await alerter.close();
+  });
+
+  test('an explicit channel on the alert skips routing', async () => {
+    const { alerter, slack } = createTestAlerter({ routes: [{ channels: [oncall], mentions: ['@here'] }] });
+
+    await alerter.high('Refund failed', payments);
+
+    const [message] = slack.getSentMessages();
+    assert.equal(message.channel, '#payments');
+    assert.equal(mentionsOf(message), undefined);
+    await alerter.close();
+  });
+
+  test('channel budgets apply to the channel an alert is routed to', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [{ match: { errorClass: 'PaymentError' }, channels: [payments] }],
+      rateLimit: { perChannel: { '#payments': 1 }, overflow: 'drop' }
+    });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    assert.equal((await alerter.high(new PaymentError('Refund failed'))).status, 'sent');
+    assert.equal((await alerter.high(new PaymentError('Refund failed again'))).status, 'rate-limited');
+    // The default channel has no budget of its own
+    assert.equal((await alerter.high('Disk full')).status, 'sent');
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#payments', '#alerts']);
+    assert.match(errors[0].message, /^Rate limit exceeded: dropped HIGH alert for #payments /);
+    await alerter.close();
+  });
+
+  test('an alert routed to several channels needs budget in each', async () => {
+    const { alerter } = createTestAlerter({
+      routes: [{ match: { severity: 'HIGH' }, channels: [oncall, payments] }],
+      rateLimit: { perChannel: { '#oncall': 2, '#payments': 1 }, overflow: 'drop' }
+    });
+    alerter.onError(() => { });
+
+    assert.equal((await alerter.high('Refund failed')).status, 'sent');
+    assert.equal((await alerter.high('Refund failed again')).status, 'rate-limited');
+    await alerter.close();
+  });
+
+  test('digests are kept per routed channel', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [{ match: { message: '^Refund' }, channels: [payments, oncall] }],
+      digest: true
+    });
+
+    await alerter.low('Refund slow');
+    await alerter.low('Cache miss');
+    await alerter.flush();
+
+    const digests = Object.fromEntries(slack.getSentMessages().map(message => [message.channel, message.text.match(/Digest: \d alert/)![0]]));
+    assert.deepEqual(digests, { '#payments': 'Digest: 1 alert', '#oncall': 'Digest: 1 alert', '#alerts': 'Digest: 1 alert' });
+    await alerter.close();
+  });
+
+  test('init rejects rules without a destination or with bad patterns', () => {
+    assert.throws(() => createTestAlerter({ routes: [{ match: { severity: 'HIGH' } }] }), /routes\[0\] needs channels, mentions or both/);
+    assert.throws(() => createTestAlerter({ routes: [{ channels: [{ channelName: '#x', channelId: '' }] }] }), /routes\[0\]\.channels entries need a channelName and a channelId/);
+    assert.throws(() => createTestAlerter({ routes: [{ match: { message: '(' }, mentions: ['@here'] }] }), /routes\[0\]\.match\.message is not a valid pattern/);
+  });
+});
@@ -0,0 +1,93 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+import type { SentMessage } from '../src';
+
+/**
+ * Texts of the message's context elements and sections
+ */
+function blockTexts(message: SentMessage): string[] {
+  return message.blocks.flatMap(block => block.elements
+    ? block.elements.map((element: { text?: string }) => element.text || '')
+    : [block.text?.text || '']);
+}
+
+function tagsOf(message: SentMessage): string | undefined {
+  return blockTexts(message).find(text => text.startsWith('*Tags:*'));
+}
+
+describe('Scope and breadcrumbs', () => {
+  test('alerts show the user, tags and the latest breadcrumbs', async () => {
+    const { alerter, slack } = createTestAlerter({ scope: { breadcrumbsInMessage: 2 } });
+
+    alerter.setUser({ id: 'u-1', username: 'ann', email: 'ann@example.com' });
+    alerter.setTag('region', 'eu-west-1');
+    alerter.addBreadcrumb({ category: 'http', message: 'GET /cart' });
+    alerter.addBreadcrumb({ category: 'db', message: 'Loaded cart' });
+    alerter.addBreadcrumb({ message: 'Charging card' });
+    await alerter.high('Checkout failed');
+
+    const texts = blockTexts(slack.getSentMessages()[0]);
+    assert.ok(texts.includes('*User:* u-1 · ann · ann@example.com'));
+    assert.ok(texts.includes('*Tags:* `region=eu-west-1`'));
+    const breadcrumbs = texts.find(text => text.startsWith('*Breadcrumbs:*'))!.split('\n').slice(1);
+    assert.equal(breadcrumbs.length, 2);
+    assert.match(breadcrumbs[0], /^`.+` \[db\] Loaded cart$/);
+    assert.match(breadcrumbs[1], /^`.+` Charging card$/);
+    await alerter.close();
+  });
+
+  test('withScope keeps concurrent work apart and leaves the global scope alone', async () => {
+    const { alerter, slack } = createTestAlerter();
+    alerter.setTag('region', 'eu');
+
+    await Promise.all(['req-1', 'req-2'].map(id => alerter.withScope(async () => {
+      alerter.setTag('request', id);
+      await new Promise(resolve => setTimeout(resolve, id === 'req-1' ? 20 : 0));
+      await alerter.high(`Failed ${id}`);
+    })));
+    await alerter.high('Outside');
+
+    const tags = Object.fromEntries(slack.getSentMessages().map(message => [message.text.match(/Failed req-\d|Outside/)![0], tagsOf(message)]));
+    assert.deepEqual(tags, {
+      'Failed req-1': '*Tags:* `region=eu` `request=req-1`',
+      'Failed req-2': '*Tags:* `region=eu` `request=req-2`',
+      Outside: '*Tags:* `region=eu`'
+    });
+    await alerter.close();
+  });
+
+  test('the scope is captured when the alert is raised', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    alerter.setTag('step', 'charge');
+    const pending = alerter.high('Charge failed');
+    alerter.setTag('step', 'refund');
+    await pending;
+
+    assert.equal(tagsOf(slack.getSentMessages()[0]), '*Tags:* `step=charge`');
+    await alerter.close();
+  });
+
+  test('attachToFile bundles the scope into JSON attachments, or attaches it alone', async () => {
+    const { alerter, slack } = createTestAlerter({ scope: { attachToFile: true } });
+    alerter.setContext('booking', { slot: '09:00' });
+    alerter.setContext('cart', { items: 3 });
+    alerter.setContext('cart', null);
+    alerter.setUser({ id: 'u-1' });
+    alerter.setUser(null);
+
+    await alerter.high('With data', { fileData: { orderId: 42 }, fileType: 'json' });
+    await alerter.high('Without data');
+    await alerter.high('With text', { fileData: 'plain', fileType: 'txt' });
+
+    const [withData, withoutData, withText] = slack.getUploadedFiles();
+    const bundled = JSON.parse(withData.content.toString());
+    assert.equal(bundled.orderId, 42);
+    assert.deepEqual(bundled._scope.contexts, { booking: { slot: '09:00' } });
+    assert.equal(bundled._scope.user, undefined);
+    assert.deepEqual(JSON.parse(withoutData.content.toString()).contexts, { booking: { slot: '09:00' } });
+    assert.equal(withText.content.toString(), 'plain');
+    await alerter.close();
+  });
+});
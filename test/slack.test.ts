@@ -0,0 +1,185 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createAlerter, FakeSlackClient } from '../src';
+import { createTestAlerter } from './helpers';
+
+describe('Slack messages', () => {
+  test('HIGH alerts get a red header, the error and a timestamp', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    const result = await alerter.high(new Error('Payment failed'));
+
+    assert.equal(result.status, 'sent');
+    const [message] = slack.getSentMessages();
+    assert.equal(message.channel, '#alerts');
+    assert.equal(message.ts, result.ts);
+    assert.equal(message.color, '#ff0000');
+    assert.match(message.text, /^🚨 HIGH Alert: Payment failed/);
+    assert.deepEqual(message.blocks[0].text, { type: 'plain_text', text: '🚨 HIGH ALERT', emoji: true });
+    assert.equal(message.blocks[1].text.text, '*Error:*\n```Payment failed```');
+    assert.equal(message.blocks[message.blocks.length - 1].type, 'context');
+    await alerter.close();
+  });
+
+  test('MEDIUM and LOW alerts use their own color and emoji', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.medium('Slow query');
+    await alerter.low('Cache miss');
+
+    const [medium, low] = slack.getSentMessages();
+    assert.equal(medium.color, '#ffcc00');
+    assert.equal(medium.blocks[0].text.text, '⚠️ MEDIUM ALERT');
+    assert.equal(low.color, '#36a64f');
+    assert.equal(low.blocks[0].text.text, 'ℹ️ LOW ALERT');
+    await alerter.close();
+  });
+
+  test('a comment without a file is added as a note', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.low('Retrying job', { comment: 'third attempt' });
+
+    const texts = slack.getSentMessages()[0].blocks.map(block => block.text?.text);
+    assert.ok(texts.includes('*Note:* third attempt'));
+    await alerter.close();
+  });
+
+  test('channel options override the default channel', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.high('Disk full', { channelName: '#infra', channelId: 'C0INFRA' });
+
+    assert.equal(slack.getSentMessages()[0].channel, '#infra');
+    await alerter.close();
+  });
+
+  test('routes without channels add mentions to the default channel', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [{ match: { severity: 'HIGH' }, mentions: ['@here', 'U123'] }]
+    });
+
+    await alerter.high('Card declined');
+
+    const [message] = slack.getSentMessages();
+    assert.equal(message.channel, '#alerts');
+    assert.equal(message.blocks[1].text.text, '<!here> <@U123>');
+    assert.match(message.text, /^<!here> <@U123> 🚨 HIGH Alert/);
+    await alerter.close();
+  });
+
+  test('routes send matching alerts to their channels', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [
+        { match: { errorClass: 'TypeError' }, channels: [{ channelName: '#bugs', channelId: 'C0BUGS' }], continue: true },
+        { match: { service: 'billing' }, channels: [{ channelName: '#billing', channelId: 'C0BILL' }] }
+      ]
+    });
+
+    await alerter.medium(new TypeError('undefined is not a function'), { service: 'billing' });
+    await alerter.medium(new RangeError('out of range'));
+
+    assert.deepEqual(slack.getSentMessages().map(message => message.channel), ['#bugs', '#billing', '#alerts']);
+    await alerter.close();
+  });
+});
+
+describe('Slack attachments', () => {
+  test('fileData is uploaded to the channel and described in the message', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    const result = await alerter.medium('Import failed', {
+      fileData: { rows: 3 },
+      fileType: 'json',
+      fileName: 'import',
+      comment: 'nightly run'
+    });
+
+    const [file] = slack.getUploadedFiles();
+    assert.equal(file.name, 'import.json');
+    assert.equal(file.channelId, 'C0TEST');
+    assert.equal(file.title, 'MEDIUM Alert - import.json');
+    assert.equal(JSON.parse(file.content.toString()).rows, 3);
+    assert.equal(result.fileId, file.fileId);
+
+    const texts = slack.getSentMessages()[0].blocks.map(block => block.text?.text);
+    assert.ok(texts.some(text => /^\*Attached File:\* import\.json\n\*Format:\* JSON\n\*Size:\* [\d.]+ KB$/.test(text)));
+    assert.ok(texts.includes('*Comment:* nightly run'));
+    await alerter.close();
+  });
+
+  test('uploads go to the routed channel', async () => {
+    const { alerter, slack } = createTestAlerter({
+      routes: [{ match: { severity: 'LOW' }, channels: [{ channelName: '#noise', channelId: 'C0NOISE' }] }]
+    });
+
+    await alerter.low('Report', { fileData: 'text' });
+
+    assert.equal(slack.getUploadedFiles()[0].channelId, 'C0NOISE');
+    await alerter.close();
+  });
+});
+
+describe('Slack failures', () => {
+  test('a failed post is reported with the Slack error', async () => {
+    const { alerter, slack } = createTestAlerter();
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+    slack.failNext('chat.postMessage', 'channel_not_found');
+
+    const result = await alerter.high('Lost');
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.errors[0].message, 'Slack API failed: channel_not_found');
+    assert.equal(errors.length, 1);
+    assert.equal(slack.getSentMessages().length, 0);
+    await alerter.close();
+  });
+
+  test('a failed upload keeps the receipt of the posted message', async () => {
+    const { alerter, slack } = createTestAlerter();
+    alerter.onError(() => { });
+    slack.failNext('files.uploadV2', 'ratelimited', 30);
+
+    const result = await alerter.high('With file', { fileData: 'details' });
+
+    assert.equal(result.status, 'failed');
+    assert.equal(result.ts, slack.getSentMessages()[0].ts);
+    assert.equal((result.errors[0] as any).retryAfterMs, 30000);
+    await alerter.close();
+  });
+});
+
+describe('alert.testing', () => {
+  test('useFakeSlack swaps the client of an initialized alerter', async () => {
+    const alerter = createAlerter({ name: 'testing-swap', slackToken: 'xoxb-test', channelName: '#alerts', channelId: 'C0TEST' });
+    const fake = alerter.testing.useFakeSlack();
+
+    await alerter.high('Captured');
+
+    assert.equal(alerter.testing.getFakeSlack(), fake);
+    assert.equal(alerter.testing.getSentMessages().length, 1);
+    assert.equal(alerter.testing.getUploadedFiles().length, 0);
+
+    alerter.testing.clear();
+    assert.equal(alerter.testing.getSentMessages().length, 0);
+    await alerter.close();
+  });
+
+  test('helpers throw without a fake client', async () => {
+    const alerter = createAlerter({ name: 'testing-real', slackToken: 'xoxb-test', channelName: '#alerts', channelId: 'C0TEST' });
+
+    assert.throws(() => alerter.testing.getSentMessages(), /No fake Slack client in use/);
+    await alerter.close();
+  });
+
+  test('the fake client records calls in order', async () => {
+    const slack = new FakeSlackClient();
+
+    await slack.chat.postMessage({ channel: '#a', text: 'one' });
+    await slack.chat.update({ channel: '#a', ts: '1.000001', text: 'two' });
+
+    assert.deepEqual(slack.getCalls().map(call => call.method), ['chat.postMessage', 'chat.update']);
+    assert.equal(slack.getUpdates()[0].text, 'two');
+  });
+});
@@ -0,0 +1,129 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { parseStack } from '../src';
+import { createTestAlerter } from './helpers';
+
+const SOURCE = [
+  'export function charge(amount: number): void {',
+  '  if (amount > 100) {',
+  "    throw new Error('Card declined');",
+  '  }',
+  '}',
+  ''
+].join('\n');
+
+let root: string;
+
+/**
+ * Compile SOURCE to dist/<name>.js and return an error whose top frame points
+ * at the `new Error` in the compiled output
+ */
+function compile(name: string, inline: boolean): Error {
+  const output = ts.transpileModule(SOURCE, {
+    fileName: `${name}.ts`,
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS, sourceMap: !inline, inlineSourceMap: inline }
+  });
+
+  const jsFile = path.join(root, 'dist', `${name}.js`);
+  fs.writeFileSync(jsFile, output.outputText);
+  if (output.sourceMapText) {
+    const map = JSON.parse(output.sourceMapText);
+    fs.writeFileSync(`${jsFile}.map`, JSON.stringify({ ...map, sources: [`../src/${name}.ts`] }));
+  }
+
+  const lines = output.outputText.split('\n');
+  const line = lines.findIndex(text => text.includes('new Error'));
+  const column = lines[line].indexOf('new Error') + 1;
+
+  const error = new Error('Card declined');
+  error.stack = [
+    'Error: Card declined',
+    `    at charge (${jsFile}:${line + 1}:${column})`,
+    `    at Layer.handle (${path.join(root, 'node_modules', 'express', 'lib', 'layer.js')}:95:5)`,
+    '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)'
+  ].join('\n');
+  return error;
+}
+
+describe('Stack traces', () => {
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'stack-trace-'));
+    fs.mkdirSync(path.join(root, 'dist'));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('parseStack extracts frames and marks in-app ones', () => {
+    const frames = parseStack([
+      'TypeError: nope',
+      '    at Object.handler (/srv/app/dist/routes.js:12:7)',
+      '    at async Promise.all (index 0)',
+      '    at /srv/app/dist/index.js:3:1',
+      '    at Module._compile (node:internal/modules/cjs/loader:1376:14)',
+      '    at run (/srv/app/node_modules/lib/run.js:1:2)',
+      '    at new Promise (<anonymous>)'
+    ].join('\n'));
+
+    assert.deepEqual(frames.map(frame => [frame.function, frame.file, frame.line, frame.column, frame.inApp]), [
+      ['Object.handler', '/srv/app/dist/routes.js', 12, 7, true],
+      ['Promise.all', 'index 0', undefined, undefined, false],
+      [undefined, '/srv/app/dist/index.js', 3, 1, true],
+      ['Module._compile', 'node:internal/modules/cjs/loader', 1376, 14, false],
+      ['run', '/srv/app/node_modules/lib/run.js', 1, 2, false],
+      ['new Promise', '<anonymous>', undefined, undefined, false]
+    ]);
+  });
+
+  test('compiled frames are resolved through .map files', async () => {
+    const { alerter, slack } = createTestAlerter({ stackTrace: true });
+
+    await alerter.high(compile('billing', false));
+
+    const stack = slack.getSentMessages()[0].blocks.find(block => block.text?.text.startsWith('*Stack:*'));
+    const source = path.join(root, 'src', 'billing.ts');
+    assert.equal(stack.text.text, `*Stack:*\n\`\`\`at charge (${source}:3:11)\`\`\``);
+
+    const trace = slack.getUploadedFiles()[0].content.toString();
+    assert.match(trace, /^Error: Card declined\n {4}at charge \(.*billing\.ts:3:11\)\n {4}at Layer\.handle \(.*layer\.js:95:5\)/);
+    await alerter.close();
+  });
+
+  test('inline source maps work too', async () => {
+    const { alerter, slack } = createTestAlerter({ stackTrace: { attachToFile: false } });
+
+    await alerter.high(compile('inline', true));
+
+    const stack = slack.getSentMessages()[0].blocks.find(block => block.text?.text.startsWith('*Stack:*'));
+    assert.match(stack.text.text, /inline\.ts:3:11\)/);
+    assert.equal(slack.getUploadedFiles().length, 0);
+    await alerter.close();
+  });
+
+  test('JSON attachments get the structured frames', async () => {
+    const { alerter, slack } = createTestAlerter({ stackTrace: { sourceMaps: false } });
+
+    await alerter.high(compile('plain', false), { fileData: { orderId: 7 }, fileType: 'json' });
+
+    const json = JSON.parse(slack.getUploadedFiles()[0].content.toString());
+    assert.equal(json.orderId, 7);
+    assert.match(json._stack[0].file, /dist[\\/]plain\.js$/);
+    assert.equal(json._stack[1].inApp, false);
+    await alerter.close();
+  });
+
+  test('without stackTrace the message and attachments are unchanged', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.high(compile('off', false));
+
+    assert.ok(!slack.getSentMessages()[0].blocks.some(block => block.text?.text.startsWith('*Stack:*')));
+    assert.equal(slack.getUploadedFiles().length, 0);
+    await alerter.close();
+  });
+});
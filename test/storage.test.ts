@@ -0,0 +1,84 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createTestAlerter } from './helpers';
+import type { AlertOptions, AlertPayload, AlerterConfig } from '../src';
+
+const rows = Array.from({ length: 200 }, (_, index) => ({ id: index, note: 'row' }));
+
+async function* streamRows() {
+  for (const row of rows) yield row;
+}
+
+/**
+ * Names and contents of what one alert uploaded
+ */
+async function uploadWith(storage: Partial<AlerterConfig>, options: AlertOptions): Promise<[string, string][]> {
+  const { alerter, slack } = createTestAlerter(storage);
+  const result = await alerter.low('Export', options);
+  await alerter.close();
+
+  assert.equal(result.status, 'sent', result.errors.map(error => error.message).join('; ') || undefined);
+  return slack.getUploadedFiles().map(file => [file.name, file.content.toString('base64')]);
+}
+
+describe('Memory attachment storage', () => {
+  test('builds, splits and compresses attachments without touching the temp directory', async () => {
+    const tempDir = path.join(os.tmpdir(), `memory-spool-${process.pid}`);
+    const { alerter, slack } = createTestAlerter({ tempDir, attachments: { splitAboveBytes: 1000, compressAboveBytes: 500 } });
+
+    await alerter.low('Streamed', { fileData: streamRows(), fileType: 'csv', fileName: 'export' });
+    await alerter.low('Object', { fileData: { orderId: 42 }, fileType: 'json' });
+    await alerter.close();
+
+    assert.equal(fs.existsSync(tempDir), false);
+    const uploads = slack.getCalls('files.uploadV2').flatMap(call => call.args.file_uploads);
+    assert.ok(uploads.length > 2);
+    uploads.forEach(upload => assert.ok(Buffer.isBuffer(upload.file)));
+
+    const parts = slack.getUploadedFiles().filter(file => file.name.startsWith('export.part'));
+    const ids = parts.flatMap(file => (file.name.endsWith('.gz') ? zlib.gunzipSync(file.content) : file.content)
+      .toString().trim().split('\r\n').slice(1));
+    assert.equal(ids.length, rows.length);
+  });
+
+  test('gives transports the file content instead of a path on disk', async () => {
+    const files: { path: string; content?: Buffer }[] = [];
+    const { alerter } = createTestAlerter({
+      transports: [{ name: 'capture', send: async (payload: AlertPayload) => { files.push(payload.file!); } }]
+    });
+
+    await alerter.high('Import failed', { fileData: 'line 1\nline 2', fileType: 'txt', fileName: 'import' });
+    await alerter.close();
+
+    assert.equal(files[0].path, 'memory:/import.txt');
+    assert.equal(files[0].content!.toString(), 'line 1\nline 2');
+  });
+
+  test('produces the same attachments as disk storage', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disk-spool-'));
+    const cases: [AlertOptions, Partial<AlerterConfig>][] = [
+      [{ fileData: rows, fileType: 'csv', fileName: 'split' }, { attachments: { splitAboveBytes: 1000, compressAboveBytes: false } }],
+      [{ fileData: rows, fileType: 'ndjson', fileName: 'capped' }, { attachments: { maxBytes: 700, compressAboveBytes: false } }],
+      [{ fileData: 'x'.repeat(1000), fileType: 'txt', fileName: 'cut' }, { attachments: { maxBytes: 100, compressAboveBytes: false } }],
+      [{ fileData: rows, fileType: 'tsv', fileName: 'gzipped' }, { attachments: { compressAboveBytes: 100 } }]
+    ];
+
+    try {
+      for (const [options, config] of cases) {
+        const inMemory = await uploadWith({ ...config, attachmentStorage: 'memory' }, options);
+        const onDisk = await uploadWith({ ...config, attachmentStorage: 'disk', tempDir }, options);
+        assert.deepEqual(inMemory, onDisk, `${options.fileName} differs`);
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('init rejects unknown storage', () => {
+    assert.throws(() => createTestAlerter({ attachmentStorage: 's3' as any }), /attachmentStorage must be one of: disk, memory/);
+  });
+});
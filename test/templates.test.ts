@@ -0,0 +1,119 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+
+/**
+ * An error with a stack of `depth` "at" frames
+ */
+function errorWithFrames(message: string, depth: number): Error {
+  const error = new TypeError(message);
+  error.stack = [`TypeError: ${message}`, ...Array.from({ length: depth }, (_, index) => `    at frame${index} (app.js:${index + 1}:1)`)].join('\n');
+  return error;
+}
+
+describe('Templates', () => {
+  test('compact is a single line', async () => {
+    const { alerter, slack } = createTestAlerter({ template: 'compact', environment: 'staging' });
+
+    await alerter.high(new TypeError('Cannot read properties of undefined\nmore detail'), { comment: 'checkout' });
+
+    const [message] = slack.getSentMessages();
+    assert.equal(message.blocks.length, 1);
+    assert.equal(message.blocks[0].text.text, '🚨 *HIGH* `TypeError` Cannot read properties of undefined · staging · checkout');
+    await alerter.close();
+  });
+
+  test('detailed collapses the stack after five frames', async () => {
+    const { alerter, slack } = createTestAlerter({ template: 'detailed', environment: 'production' });
+
+    await alerter.medium(errorWithFrames('Slow', 8));
+
+    const { blocks } = slack.getSentMessages()[0];
+    const fields = blocks[1].fields.map((field: any) => field.text);
+    assert.ok(fields.includes('*Error class:*\nTypeError'));
+    assert.ok(fields.includes('*Environment:*\nproduction'));
+    const stack = blocks.find((block: any) => block.text?.text.startsWith('*Stack:*'));
+    assert.equal(stack.text.text.split('\n').length, 6);
+    assert.ok(blocks.some((block: any) => block.elements?.[0].text === '…and 3 more frames'));
+    await alerter.close();
+  });
+
+  test('runbook links get their placeholders filled and encoded', async () => {
+    const { alerter, slack } = createTestAlerter({
+      template: 'runbook',
+      links: { runbook: 'https://runbooks.example.com/{{errorClass}}', logs: 'https://logs.example.com/?q={{tags.service}}' }
+    });
+
+    await alerter.withScope(async () => {
+      alerter.setTag('service', 'billing api');
+      await alerter.high(new RangeError('Out of range'));
+    });
+
+    const { blocks } = slack.getSentMessages()[0];
+    assert.equal(blocks[1].accessory.url, 'https://runbooks.example.com/RangeError');
+    const actions = blocks.find((block: any) => block.type === 'actions');
+    assert.deepEqual(actions.elements.map((button: any) => [button.text.text, button.url]), [['logs', 'https://logs.example.com/?q=billing%20api']]);
+    await alerter.close();
+  });
+
+  test('runbook without a link says so', async () => {
+    const { alerter, slack } = createTestAlerter({ template: 'runbook' });
+
+    await alerter.low('No runbook');
+
+    assert.ok(slack.getSentMessages()[0].blocks.some((block: any) => /No runbook linked/.test(block.elements?.[0].text || '')));
+    await alerter.close();
+  });
+
+  test('JSON templates drop blocks whose placeholders came out empty', async () => {
+    const { alerter, slack } = createTestAlerter({
+      template: {
+        HIGH: [
+          { type: 'section', text: { type: 'mrkdwn', text: '{{emoji}} *{{severity}}* {{error}} ({{tags.region}})' } },
+          { type: 'section', text: { type: 'mrkdwn', text: '{{comment}}' } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: '{{frame.0}}' }] }
+        ]
+      }
+    });
+
+    await alerter.high('Down');
+    await alerter.low('Uses the default');
+
+    const [high, low] = slack.getSentMessages();
+    assert.deepEqual(high.blocks, [{ type: 'section', text: { type: 'mrkdwn', text: '🚨 *HIGH* Down ()' } }]);
+    assert.equal(low.blocks[0].type, 'header');
+    await alerter.close();
+  });
+
+  test('builders can reuse the default parts, per alert', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.low('Custom', {
+      comment: 'see above',
+      template: ({ parts }) => [parts.header, parts.comment, { type: 'divider' }, parts.time]
+    });
+
+    const { blocks } = slack.getSentMessages()[0];
+    assert.deepEqual(blocks.map((block: any) => block.type), ['header', 'section', 'divider', 'context']);
+    assert.equal(blocks[1].text.text, '*Note:* see above');
+    await alerter.close();
+  });
+
+  test('a failing builder falls back to the default layout', async () => {
+    const { alerter, slack } = createTestAlerter({ template: () => { throw new Error('bad template'); } });
+    const errors: Error[] = [];
+    alerter.onError(error => errors.push(error));
+
+    const result = await alerter.high('Still sent');
+
+    assert.equal(result.status, 'sent');
+    assert.equal(slack.getSentMessages()[0].blocks[0].text.text, '🚨 HIGH ALERT');
+    assert.match(errors[0].message, /Template failed, used the default layout: bad template/);
+    await alerter.close();
+  });
+
+  test('unknown templates are rejected at init', () => {
+    assert.throws(() => createTestAlerter({ template: 'fancy' as any }), /template must be one of default, compact, detailed, runbook/);
+    assert.throws(() => createTestAlerter({ template: { CRITICAL: 'compact' } as any }), /template keys must be HIGH, MEDIUM or LOW/);
+  });
+});
@@ -0,0 +1,113 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestAlerter } from './helpers';
+
+function threadBlock(blocks: any[]) {
+  return blocks.find(block => block.block_id === 'alert_thread');
+}
+
+describe('Threading', () => {
+  test('alerts with the same threadKey reply to the first one', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    const first = await alerter.high('Import started failing', { threadKey: 'import-42' });
+    const second = await alerter.medium('Import row rejected', { threadKey: 'import-42' });
+    await alerter.high('Unrelated');
+
+    const [parent, reply, unrelated] = slack.getSentMessages();
+    assert.equal(parent.threadTs, undefined);
+    assert.equal(reply.threadTs, first.ts);
+    assert.equal(second.ts, reply.ts);
+    assert.equal(second.transports[0].receipt?.threadTs, first.ts);
+    assert.equal(unrelated.threadTs, undefined);
+    await alerter.close();
+  });
+
+  test('the parent counts its follow-ups', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.high('Job failed', { correlationId: 'job-7' });
+    await alerter.high('Job failed again', { correlationId: 'job-7' });
+    await alerter.high('Job failed once more', { correlationId: 'job-7' });
+
+    const updates = slack.getUpdates();
+    assert.equal(updates.length, 2);
+    assert.ok(updates.every(update => update.ts === slack.getSentMessages()[0].ts));
+    assert.match(threadBlock(updates[1].blocks).elements[0].text, /^🧵 \*2 follow-ups\* in thread, latest at /);
+    await alerter.close();
+  });
+
+  test('uploads go into the alert thread', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    const first = await alerter.low('Export', { fileData: 'a', threadKey: 'export' });
+    await alerter.low('Export', { fileData: 'b', threadKey: 'export' });
+
+    const [own, reply] = slack.getUploadedFiles();
+    assert.equal(own.threadTs, first.ts);
+    assert.equal(reply.threadTs, first.ts);
+    await alerter.close();
+  });
+
+  test('with threading on, repeats of a fingerprint and scope correlation ids are threaded', async () => {
+    const { alerter, slack } = createTestAlerter({ threading: true });
+
+    await alerter.high('Upstream 503');
+    await alerter.high('Upstream 504');
+    await alerter.withScope(async () => {
+      alerter.setTag('correlationId', 'req-1');
+      await alerter.low('First in request');
+      await alerter.medium('Second in request');
+    });
+
+    const [parent, repeat, requestParent, requestReply] = slack.getSentMessages();
+    assert.equal(repeat.threadTs, parent.ts);
+    assert.equal(requestParent.threadTs, undefined);
+    assert.equal(requestReply.threadTs, requestParent.ts);
+    await alerter.close();
+  });
+
+  test('without threading, repeats stay top-level', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await alerter.high('Same');
+    await alerter.high('Same');
+
+    assert.ok(slack.getSentMessages().every(message => message.threadTs === undefined));
+    await alerter.close();
+  });
+
+  test('a burst of alerts lands in a single thread', async () => {
+    const { alerter, slack } = createTestAlerter();
+
+    await Promise.all([1, 2, 3, 4].map(index => alerter.low(`Burst ${index}`, { threadKey: 'burst' })));
+
+    const messages = slack.getSentMessages();
+    assert.equal(messages.filter(message => !message.threadTs).length, 1);
+    assert.ok(messages.slice(1).every(message => message.threadTs === messages[0].ts));
+    await alerter.close();
+  });
+
+  test('a thread closes after windowMs', async () => {
+    const { alerter, slack } = createTestAlerter({ threading: { windowMs: 20 } });
+
+    await alerter.high('Stale', { threadKey: 'stale' });
+    await new Promise(resolve => setTimeout(resolve, 40));
+    await alerter.high('Stale', { threadKey: 'stale' });
+
+    assert.ok(slack.getSentMessages().every(message => message.threadTs === undefined));
+    await alerter.close();
+  });
+
+  test('a failed parent does not swallow the next alert', async () => {
+    const { alerter, slack } = createTestAlerter();
+    alerter.onError(() => { });
+    slack.failNext('chat.postMessage', 'channel_not_found');
+
+    await alerter.high('Lost', { threadKey: 'retry' });
+    await alerter.high('Found', { threadKey: 'retry' });
+
+    assert.equal(slack.getSentMessages()[0].threadTs, undefined);
+    await alerter.close();
+  });
+});
@@ -0,0 +1,195 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { DeliveryError, WebhookTransport, TeamsTransport, DiscordTransport, EmailTransport, FileTransport } from '../src';
+import { createTestAlerter } from './helpers';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+// Status (and Retry-After) the next request is answered with
+let nextResponse: { status: number; retryAfter?: number } = { status: 200 };
+
+/**
+ * The last request the local webhook server received, JSON bodies parsed
+ */
+function lastRequest(): ReceivedRequest & { json: () => any } {
+  const request = received[received.length - 1];
+  return { ...request, json: () => JSON.parse(request.body) };
+}
+
+describe('Transports', () => {
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ url: req.url || '', headers: req.headers, body });
+        const { status, retryAfter } = nextResponse;
+        nextResponse = { status: 200 };
+        res.writeHead(status, retryAfter ? { 'Retry-After': String(retryAfter) } : {});
+        res.end(status === 200 ? 'ok' : 'busy');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('Webhook posts the alert as JSON with its headers and file content', async () => {
+    received = [];
+    const { alerter, slack } = createTestAlerter({
+      transports: [new WebhookTransport({ url: `${baseUrl}/hooks/alerts`, headers: { 'X-Api-Key': 'k-1' }, includeFileContent: true })]
+    });
+
+    const result = await alerter.high('Payment provider down', { comment: 'EU only', fileData: 'timeout after 30s', fileType: 'txt', fileName: 'trace' });
+
+    assert.equal(result.status, 'sent');
+    assert.deepEqual(result.transports.map(transport => [transport.transport, transport.ok]), [['slack', true], ['webhook', true]]);
+    assert.equal(slack.getSentMessages().length, 1);
+
+    const request = lastRequest();
+    assert.equal(request.url, '/hooks/alerts');
+    assert.equal(request.headers['x-api-key'], 'k-1');
+    assert.equal(request.headers['content-type'], 'application/json');
+    const body = request.json();
+    assert.equal(body.severity, 'HIGH');
+    assert.equal(body.message, 'Payment provider down');
+    assert.equal(body.comment, 'EU only');
+    assert.deepEqual({ name: body.file.name, content: body.file.content }, { name: 'trace.txt', content: 'timeout after 30s' });
+    await alerter.close();
+  });
+
+  test('a failing webhook fails only its own delivery and keeps the Retry-After hint', async () => {
+    const { alerter } = createTestAlerter({ transports: [new WebhookTransport({ url: `${baseUrl}/hooks/down`, name: 'ops-hook' })] });
+    alerter.onError(() => { });
+    nextResponse = { status: 503, retryAfter: 30 };
+
+    const result = await alerter.medium('Queue backed up');
+
+    assert.equal(result.status, 'partial');
+    const failed = result.transports.find(transport => transport.transport === 'ops-hook')!;
+    assert.equal(failed.ok, false);
+    assert.equal(failed.error!.message, 'Webhook request failed: HTTP 503: busy');
+    assert.ok(failed.error instanceof DeliveryError);
+    assert.equal(failed.error.retryAfterMs, 30000);
+    await alerter.close();
+  });
+
+  test('Teams receives a MessageCard naming the attachment', async () => {
+    received = [];
+    const { alerter } = createTestAlerter({ transports: [new TeamsTransport({ webhookUrl: `${baseUrl}/teams` })] });
+
+    await alerter.medium('Export slow', { comment: 'Nightly job', fileData: [{ id: 1 }], fileType: 'csv', fileName: 'rows' });
+
+    const card = lastRequest().json();
+    assert.equal(card['@type'], 'MessageCard');
+    assert.equal(card.title, '⚠️ MEDIUM ALERT');
+    assert.match(card.sections[0].text, /^<pre>Export slow/);
+    const facts = Object.fromEntries(card.sections[0].facts.map((fact: { name: string; value: string }) => [fact.name, fact.value]));
+    assert.match(facts['Attached File'], /^rows\.csv \([\d.]+ KB\)$/);
+    assert.equal(facts.Comment, 'Nightly job');
+    await alerter.close();
+  });
+
+  test('Discord gets a plain embed, or multipart with the file attached', async () => {
+    received = [];
+    const { alerter } = createTestAlerter({ transports: [new DiscordTransport({ webhookUrl: `${baseUrl}/discord`, username: 'alerts' })] });
+
+    await alerter.low('Cache miss rate high');
+    const plain = lastRequest().json();
+    assert.equal(plain.username, 'alerts');
+    assert.equal(plain.embeds[0].title, 'ℹ️ LOW ALERT');
+    assert.equal(plain.embeds[0].description, '```Cache miss rate high```');
+
+    await alerter.low('Cache dump', { fileData: 'key,hits\na,1', fileType: 'txt', fileName: 'dump' });
+    const multipart = lastRequest();
+    const boundary = /boundary=(.+)$/.exec(multipart.headers['content-type'] || '')![1];
+    const parts = multipart.body.split(`--${boundary}`);
+    assert.match(parts[1], /name="payload_json"[\s\S]*"title":"ℹ️ LOW ALERT"/);
+    assert.match(parts[2], /name="files\[0\]"; filename="dump\.txt"\r\n[\s\S]*\r\n\r\nkey,hits\na,1\r\n$/);
+    assert.equal(parts[3], '--\r\n');
+    await alerter.close();
+  });
+
+  test('Email hands the alert and its attachment to the transporter', async () => {
+    const mails: Record<string, any>[] = [];
+    const { alerter } = createTestAlerter({
+      transports: [new EmailTransport({
+        transporter: { sendMail: async mail => { mails.push(mail); } },
+        from: 'alerts@example.com',
+        to: ['ops@example.com', 'oncall@example.com'],
+        subjectPrefix: '[prod] '
+      })]
+    });
+
+    await alerter.high(new Error('Disk full'), { comment: 'db-1', fileData: { volume: '/data' }, fileType: 'json', fileName: 'disk' });
+
+    assert.equal(mails.length, 1);
+    const [mail] = mails;
+    assert.equal(mail.from, 'alerts@example.com');
+    assert.deepEqual(mail.to, ['ops@example.com', 'oncall@example.com']);
+    assert.equal(mail.subject, '[prod] 🚨 HIGH Alert: Disk full');
+    assert.match(mail.text, /^HIGH ALERT\n\nError:\nDisk full\n\nStack trace:\nError: Disk full\n/);
+    assert.match(mail.text, /\nComment: db-1\n/);
+    assert.equal(mail.attachments[0].filename, 'disk.json');
+    assert.equal(JSON.parse(mail.attachments[0].content.toString()).volume, '/data');
+    await alerter.close();
+  });
+
+  test('Email failures are reported with the transporter message', async () => {
+    const { alerter } = createTestAlerter({
+      transports: [new EmailTransport({
+        transporter: { sendMail: async () => { throw new Error('535 authentication failed'); } },
+        from: 'alerts@example.com',
+        to: 'ops@example.com'
+      })]
+    });
+    alerter.onError(() => { });
+
+    const result = await alerter.high('Disk full');
+
+    assert.equal(result.errors[0].message, 'Email delivery failed: 535 authentication failed');
+    await alerter.close();
+  });
+
+  test('File appends one JSON line per alert', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-transport-'));
+    const filePath = path.join(root, 'alerts.ndjson');
+    const { alerter } = createTestAlerter({ transports: [new FileTransport({ filePath })] });
+
+    try {
+      await alerter.high('First');
+      await alerter.low('Second', { comment: 'follow-up' });
+
+      const lines = fs.readFileSync(filePath, 'utf8').trimEnd().split('\n').map(line => JSON.parse(line));
+      assert.deepEqual(lines.map(line => [line.severity, line.message, line.comment]), [['HIGH', 'First', undefined], ['LOW', 'Second', 'follow-up']]);
+      assert.ok(!Number.isNaN(Date.parse(lines[0].timestamp)));
+    } finally {
+      await alerter.close();
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('constructors reject missing settings', () => {
+    assert.throws(() => new WebhookTransport({ url: '' }), /url is required/);
+    assert.throws(() => new TeamsTransport({ webhookUrl: '' }), /webhookUrl is required/);
+    assert.throws(() => new DiscordTransport({ webhookUrl: '' }), /webhookUrl is required/);
+    assert.throws(() => new EmailTransport({ transporter: {} as any, from: 'a@example.com', to: 'b@example.com' }), /sendMail/);
+    assert.equal(new FileTransport().name, 'stdout');
+  });
+});